@@ -0,0 +1,39 @@
+import type { MeetingSource } from "@/definitions/types";
+import { getStore } from "@/features/storage";
+
+/**
+ * history コマンド: 取得元ごとの最近の実行履歴を表示
+ */
+export async function runHistory(options: {
+	sources: MeetingSource[];
+	limit: number;
+}): Promise<number> {
+	const { sources, limit } = options;
+	const store = getStore();
+
+	for (const source of sources) {
+		const executions = await store.listExecutions(source, limit);
+		console.log(`\n📜 ${source.displayName} (${store.name})`);
+		if (executions.length === 0) {
+			console.log("  実行履歴がありません");
+			continue;
+		}
+		console.table(
+			executions.map((execution) => ({
+				開始日時: execution.startedAt,
+				ステータス: execution.status,
+				"所要時間(秒)": Math.round(execution.durationMs / 1000),
+				取得: execution.scraped,
+				新規: execution.inserted,
+				更新: execution.updated,
+				変更なし: execution.unchanged,
+				スキップ: execution.skipped,
+				要確認: execution.issues,
+				HTTPエラー: execution.httpErrors,
+				エラー: execution.errorDetail.split("\n")[0] ?? "",
+			})),
+		);
+	}
+
+	return 0;
+}
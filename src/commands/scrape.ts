@@ -0,0 +1,55 @@
+import type { MeetingData, MeetingSource } from "@/definitions/types";
+import { toCsv } from "@/features/export/csv";
+import { loadWatchlist, tagMeetings } from "@/features/watchlist";
+
+export const SCRAPE_FORMATS = ["json", "csv", "table"] as const;
+export type ScrapeFormat = (typeof SCRAPE_FORMATS)[number];
+
+/**
+ * scrape コマンド: 取得元をスクレイピングして標準出力に表示
+ * 保存先には書き込まない
+ * 失敗した取得元がある場合は、取得できた分を表示して終了コード1を返す
+ */
+export async function runScrape(options: {
+	sources: MeetingSource[];
+	format: ScrapeFormat;
+	refresh: boolean;
+}): Promise<number> {
+	const { sources, format, refresh } = options;
+
+	const watchlist = await loadWatchlist();
+	const meetings: MeetingData[] = [];
+	let failed = 0;
+	for (const source of sources) {
+		try {
+			meetings.push(
+				...tagMeetings(await source.scrape({ refresh }), watchlist),
+			);
+		} catch (error) {
+			failed++;
+			console.error(`Failed to scrape ${source.displayName}:`, error);
+		}
+	}
+
+	switch (format) {
+		case "json":
+			process.stdout.write(`${JSON.stringify(meetings, null, 2)}\n`);
+			break;
+		case "csv":
+			process.stdout.write(toCsv(meetings));
+			break;
+		case "table":
+			console.table(
+				meetings.map(({ date, startTime, endTime, name, tags }) => ({
+					date,
+					startTime,
+					endTime,
+					name,
+					tags: (tags ?? []).join(", "),
+				})),
+			);
+			break;
+	}
+
+	return failed > 0 ? 1 : 0;
+}
@@ -0,0 +1,137 @@
+import {
+	afterAll,
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	mock,
+	spyOn,
+	test,
+} from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { MeetingData, MeetingSource } from "@/definitions/types";
+import { sheetsStore } from "@/features/storage/sheets";
+import { runSync } from "./sync";
+
+const TEMP_DIR = mkdtempSync(join(tmpdir(), "sync-"));
+
+const meeting: MeetingData = {
+	name: "総合資源エネルギー調査会 基本政策分科会（第70回）",
+	date: "2026-05-20",
+	time: "10時00分～12時00分",
+	startTime: "10:00",
+	endTime: "12:00",
+	allDay: false,
+	agenda: "エネルギー基本計画について",
+	detailUrl: "https://www.meti.go.jp/shingikai/enecho/kihon_seisaku/070.html",
+	cancelNotice: "",
+	venue: "",
+	format: "",
+	livestreamUrl: "",
+	viewingDeadline: "",
+};
+
+const source = {
+	id: "meti",
+	displayName: "METI",
+	sheetName: "経済産業省",
+	scrape: async () => [meeting],
+	fetchDocuments: async () => [],
+} as unknown as MeetingSource;
+
+// Google Sheets の代わりに保存先の呼び出しを記録する
+function mockStore() {
+	spyOn(console, "log").mockImplementation(() => {});
+	spyOn(sheetsStore, "upsertMeetings").mockResolvedValue({
+		updated: 0,
+		inserted: 1,
+		unchanged: 0,
+		changes: [],
+		insertedMeetings: [meeting],
+	});
+	spyOn(sheetsStore, "upsertDocuments").mockResolvedValue([]);
+	spyOn(sheetsStore, "listMeetings").mockResolvedValue([]);
+	spyOn(sheetsStore, "saveIssues").mockResolvedValue();
+	spyOn(sheetsStore, "logExecution").mockResolvedValue();
+	spyOn(sheetsStore, "rebuildViews").mockResolvedValue();
+	return spyOn(sheetsStore, "tidyMeetings").mockResolvedValue();
+}
+
+beforeEach(() => {
+	process.env.WATCHLIST_PATH = join(TEMP_DIR, "missing.json");
+	process.env.EXECUTION_LOG_PATH = join(TEMP_DIR, "executions.jsonl");
+	process.env.ICS_OUTPUT_DIR = join(TEMP_DIR, "out");
+});
+
+afterEach(() => {
+	mock.restore();
+	delete process.env.WATCHLIST_PATH;
+	delete process.env.EXECUTION_LOG_PATH;
+	delete process.env.ICS_OUTPUT_DIR;
+});
+
+afterAll(() => {
+	rmSync(TEMP_DIR, { recursive: true, force: true });
+});
+
+describe("runSync", () => {
+	test("通常の同期では同期後に過去の会議を過去シートに移動する", async () => {
+		const tidyMeetings = mockStore();
+
+		const code = await runSync({
+			sources: [source],
+			allSources: [source],
+			dryRun: false,
+			refresh: false,
+		});
+
+		expect(code).toBe(0);
+		expect(tidyMeetings).toHaveBeenCalledWith(source, {
+			changedSince: expect.any(Date),
+			archive: true,
+		});
+	});
+
+	test("過去分の取り込みでは取り込んだ会議を過去シートに移動しない", async () => {
+		const tidyMeetings = mockStore();
+
+		await runSync({
+			sources: [source],
+			allSources: [source],
+			dryRun: false,
+			refresh: false,
+			range: { from: "2026-04", to: "2026-06" },
+		});
+
+		expect(tidyMeetings).toHaveBeenCalledWith(source, {
+			changedSince: expect.any(Date),
+			archive: false,
+		});
+		// 通常の同期の要確認の一覧は置き換えない
+		expect(sheetsStore.saveIssues).not.toHaveBeenCalled();
+		expect(sheetsStore.upsertMeetings).toHaveBeenCalledWith(
+			source,
+			[{ ...meeting, tags: [] }],
+			{
+				dryRun: false,
+				partial: true,
+				unresolvedUrls: [],
+			},
+		);
+	});
+
+	test("dry-run の場合は保存済みの会議を整理しない", async () => {
+		const tidyMeetings = mockStore();
+
+		await runSync({
+			sources: [source],
+			allSources: [source],
+			dryRun: true,
+			refresh: false,
+		});
+
+		expect(tidyMeetings).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,569 @@
+import type {
+	DocumentEntry,
+	ExecutionRecord,
+	MeetingChange,
+	MeetingData,
+	MeetingDocuments,
+	MeetingSource,
+	MeetingStore,
+	MonthRange,
+	ScrapeOptions,
+	UpsertResult,
+	ValidationIssue,
+} from "@/definitions/types";
+import {
+	getCalendarEventsApi,
+	getCalendarId,
+} from "@/features/calendar/client";
+import { syncCalendar } from "@/features/calendar/sync";
+import { exportCalendars } from "@/features/export/ical";
+import { createRunId, writeExecutionLog } from "@/features/history";
+import { notifySyncResults } from "@/features/notify/webhook";
+import { getDocumentRecheckDays } from "@/features/scrape/documents";
+import {
+	summarizeIssues,
+	validateMeetings,
+} from "@/features/scrape/validation";
+import { getStore } from "@/features/storage";
+import {
+	isRelevant,
+	loadWatchlist,
+	tagMeetings,
+	type Watchlist,
+} from "@/features/watchlist";
+import { getHttpStats, type HttpStats, resetHttpStats } from "@/utils/http";
+import { getJstDateString } from "@/utils/time";
+
+/**
+ * 取得元ごとの同期結果
+ */
+interface SyncResult {
+	source: MeetingSource;
+	status: "成功" | "失敗";
+	meetings: MeetingData[];
+	scraped: number;
+	updated: number;
+	inserted: number;
+	unchanged: number;
+	skipped: number; // 一覧にあるが取り込めなかった件数
+	issues: number; // 要確認の件数
+	unresolvedUrls: string[]; // 詳細ページの取得に失敗・スキップした会議の詳細URL (保存済みの値を変更しない)
+	insertedMeetings: MeetingData[];
+	changes: MeetingChange[];
+	documents: DocumentEntry[]; // 新規に確認した資料
+	http: HttpStats;
+	error?: string; // 失敗時のエラーメッセージ
+}
+
+/**
+ * 同期結果から実行履歴を作成
+ */
+function toExecutionRecord(
+	result: SyncResult,
+	runId: string,
+	startedAt: Date,
+	errorDetail: string,
+): ExecutionRecord {
+	const finishedAt = new Date();
+	return {
+		runId,
+		sourceId: result.source.id,
+		startedAt: startedAt.toISOString(),
+		finishedAt: finishedAt.toISOString(),
+		durationMs: finishedAt.getTime() - startedAt.getTime(),
+		status: result.status,
+		scraped: result.scraped,
+		inserted: result.inserted,
+		updated: result.updated,
+		unchanged: result.unchanged,
+		skipped: result.skipped,
+		documents: result.documents.length,
+		issues: result.issues,
+		httpRequests: result.http.requests,
+		httpRetries: result.http.retries,
+		httpErrors: result.http.errors,
+		errorDetail,
+	};
+}
+
+/**
+ * dry-run時に追加・更新される内容を表示
+ */
+function printPlan(source: MeetingSource, result: UpsertResult) {
+	for (const meeting of result.insertedMeetings) {
+		console.log(
+			`  [新規] ${meeting.date} ${meeting.startTime || meeting.time} ${meeting.name}`,
+		);
+		console.log(`         ${meeting.detailUrl}`);
+	}
+	for (const change of result.changes) {
+		console.log(`  [更新] ${change.name} (${change.field})`);
+		console.log(
+			`         ${change.before || "(空)"} → ${change.after || "(空)"}`,
+		);
+		console.log(`         ${change.detailUrl}`);
+	}
+	if (result.inserted === 0 && result.updated === 0) {
+		console.log(`  ${source.displayName}: 変更なし`);
+	}
+}
+
+/**
+ * dry-run時に追加される資料を表示
+ */
+function printDocuments(documents: DocumentEntry[]) {
+	for (const document of documents) {
+		console.log(`  [${document.kind}] ${document.name}: ${document.title}`);
+		console.log(`         ${document.url}`);
+	}
+}
+
+/**
+ * dry-run時に要確認の一覧を表示
+ */
+function printIssues(issues: ValidationIssue[]) {
+	for (const issue of issues) {
+		console.log(`  [要確認] ${issue.name}: ${issue.reason}`);
+		if (issue.detail) {
+			console.log(`         ${issue.detail}`);
+		}
+		console.log(`         ${issue.detailUrl}`);
+	}
+}
+
+/**
+ * 資料を確認する会議を集める
+ * 今回取得した会議に加え、一覧から外れた開催済みの会議も
+ * 確認期間 (DOCUMENT_RECHECK_DAYS) 内であれば詳細ページを再確認する
+ */
+async function collectDocuments(
+	source: MeetingSource,
+	store: MeetingStore,
+	meetings: MeetingData[],
+	scrapeOptions: ScrapeOptions,
+): Promise<MeetingDocuments[]> {
+	const collected: MeetingDocuments[] = meetings.map((meeting) => ({
+		detailUrl: meeting.detailUrl,
+		name: meeting.name,
+		date: meeting.date,
+		documents: meeting.documents ?? [],
+	}));
+
+	const today = getJstDateString();
+	const since = new Date(`${today}T00:00:00Z`);
+	since.setUTCDate(since.getUTCDate() - getDocumentRecheckDays());
+	const sinceDate = since.toISOString().substring(0, 10);
+
+	const scrapedUrls = new Set(meetings.map((meeting) => meeting.detailUrl));
+	const targets = (await store.listMeetings(source)).filter(
+		(meeting) =>
+			!scrapedUrls.has(meeting.detailUrl) &&
+			meeting.date >= sinceDate &&
+			meeting.date < today,
+	);
+
+	for (const meeting of targets) {
+		console.log(`Rechecking documents for: ${meeting.name}`);
+		try {
+			collected.push({
+				detailUrl: meeting.detailUrl,
+				name: meeting.name,
+				date: meeting.date,
+				documents: await source.fetchDocuments(
+					meeting.detailUrl,
+					meeting.date,
+					scrapeOptions,
+				),
+			});
+		} catch (error) {
+			console.error(`Failed to recheck documents ${meeting.detailUrl}:`, error);
+		}
+	}
+
+	return collected;
+}
+
+/**
+ * 通知・出力の対象をウォッチリストに一致した会議に限定
+ */
+function filterRelevant(result: SyncResult, watchlist: Watchlist): SyncResult {
+	const meetings = result.meetings.filter((meeting) =>
+		isRelevant(meeting, watchlist),
+	);
+	const relevantUrls = new Set(meetings.map((meeting) => meeting.detailUrl));
+
+	return {
+		...result,
+		meetings,
+		insertedMeetings: result.insertedMeetings.filter((meeting) =>
+			relevantUrls.has(meeting.detailUrl),
+		),
+		changes: result.changes.filter((change) =>
+			relevantUrls.has(change.detailUrl),
+		),
+	};
+}
+
+/**
+ * 1つの取得元をスクレイピングして保存先に同期
+ * 例外はここで捕捉し、他の取得元の処理に影響させない
+ * 成否にかかわらず実行履歴を保存先 (dry-run時を除く) とJSONログに記録する
+ */
+async function syncSource(
+	source: MeetingSource,
+	store: MeetingStore,
+	dryRun: boolean,
+	scrapeOptions: ScrapeOptions,
+	watchlist: Watchlist,
+	runId: string,
+): Promise<SyncResult> {
+	const { displayName } = source;
+	const startedAt = new Date();
+	resetHttpStats();
+
+	let result: SyncResult;
+	let errorDetail = "";
+	try {
+		result = await scrapeAndStore(
+			source,
+			store,
+			dryRun,
+			scrapeOptions,
+			watchlist,
+		);
+	} catch (error) {
+		console.error(`\n❌ ${displayName} scraping failed!`);
+		console.error("Error details:", error);
+
+		errorDetail =
+			error instanceof Error ? (error.stack ?? error.message) : String(error);
+		result = {
+			source,
+			status: "失敗",
+			meetings: [],
+			scraped: 0,
+			updated: 0,
+			inserted: 0,
+			unchanged: 0,
+			skipped: 0,
+			issues: 0,
+			unresolvedUrls: [],
+			insertedMeetings: [],
+			changes: [],
+			documents: [],
+			http: getHttpStats(),
+			error: error instanceof Error ? error.message : String(error),
+		};
+	}
+
+	// 実行履歴を記録 (この取得元のシートのみ)
+	// HTTPの件数は資料の再確認を含めるため、ここで集計し直す
+	const record = toExecutionRecord(
+		{ ...result, http: getHttpStats() },
+		runId,
+		startedAt,
+		errorDetail,
+	);
+	if (!dryRun) {
+		try {
+			await store.logExecution(source, record);
+		} catch (error) {
+			console.error(`Failed to log ${displayName} execution:`, error);
+		}
+	}
+
+	// 並べ替え・書式の設定・過去の会議の移動 (取得に失敗した場合は前回の状態を残す)
+	// 過去分の取り込みでは、取り込んだ会議をすぐに過去シートに移動しないよう移動は行わない
+	if (!dryRun && result.status === "成功") {
+		try {
+			await store.tidyMeetings(source, {
+				changedSince: startedAt,
+				archive: !scrapeOptions.range,
+			});
+		} catch (error) {
+			console.error(`Failed to tidy ${displayName} meetings:`, error);
+		}
+	}
+	await writeExecutionLog(record, { dryRun });
+
+	return result;
+}
+
+/**
+ * 1つの取得元をスクレイピングして保存先に書き込む
+ */
+async function scrapeAndStore(
+	source: MeetingSource,
+	store: MeetingStore,
+	dryRun: boolean,
+	scrapeOptions: ScrapeOptions,
+	watchlist: Watchlist,
+): Promise<SyncResult> {
+	const { displayName } = source;
+	// 過去分の取り込みでは指定した期間の会議のみを扱う
+	const partial = scrapeOptions.range !== undefined;
+
+	console.log(`\n📋 Scraping ${displayName} meetings...`);
+	const scrapeIssues: ValidationIssue[] = [];
+	const meetings = tagMeetings(
+		await source.scrape({
+			...scrapeOptions,
+			onIssue: (issue) => scrapeIssues.push(issue),
+		}),
+		watchlist,
+	);
+
+	const http = getHttpStats();
+	console.log(
+		`🌐 HTTP: ${http.requests} requests, ${http.retries} retries, ${http.notModified} not modified, ${http.errors} errors`,
+	);
+
+	// 解析できなかった項目などを要確認シートに記録
+	// (過去分の取り込みでは通常の同期の結果を置き換えないよう表示のみ)
+	const issues = validateMeetings(meetings, scrapeIssues);
+	const issueSummary = `要確認${issues.length}件 (${summarizeIssues(issues)})`;
+	console.log(`🔎 ${displayName}: ${issueSummary}`);
+	if (dryRun || partial) {
+		printIssues(issues);
+	} else {
+		await store.saveIssues(source, issues);
+	}
+
+	const skipped = issues.filter((issue) => issue.reason === "スキップ").length;
+	// 一時的な取得失敗で会議が一覧から消えた・値が空になったと判定しないよう、保存先とカレンダーでは変更しない
+	const unresolvedUrls = scrapeIssues
+		.filter(
+			(issue) =>
+				issue.reason === "詳細ページ取得失敗" || issue.reason === "スキップ",
+		)
+		.map((issue) => issue.detailUrl);
+
+	if (meetings.length === 0) {
+		console.warn(`⚠️ No ${displayName} meetings found`);
+		return {
+			source,
+			status: "成功",
+			meetings,
+			scraped: 0,
+			updated: 0,
+			inserted: 0,
+			unchanged: 0,
+			skipped,
+			issues: issues.length,
+			unresolvedUrls,
+			insertedMeetings: [],
+			changes: [],
+			documents: [],
+			http,
+		};
+	}
+
+	console.log(`✅ Scraped ${meetings.length} ${displayName} meetings`);
+
+	// 保存先に書き込み (dry-runの場合は差分の計算のみ)
+	console.log(
+		dryRun
+			? `🔍 Comparing ${displayName} with ${store.name} (dry-run)...`
+			: `📝 Updating ${displayName} in ${store.name}...`,
+	);
+	const result = await store.upsertMeetings(source, meetings, {
+		dryRun,
+		partial,
+		unresolvedUrls,
+	});
+	const { updated, inserted, unchanged } = result;
+
+	// 配布資料・議事要旨・議事録を記録
+	const documents = await store.upsertDocuments(
+		source,
+		partial
+			? meetings.map((meeting) => ({
+					detailUrl: meeting.detailUrl,
+					name: meeting.name,
+					date: meeting.date,
+					documents: meeting.documents ?? [],
+				}))
+			: await collectDocuments(source, store, meetings, scrapeOptions),
+		{ dryRun },
+	);
+
+	if (dryRun) {
+		printPlan(source, result);
+		printDocuments(documents);
+	} else {
+		console.log(
+			`✨ ${displayName} updated: ${updated} updated, ${inserted} inserted, ${unchanged} unchanged, ${documents.length} new documents`,
+		);
+	}
+
+	return {
+		source,
+		status: "成功",
+		meetings,
+		scraped: meetings.length,
+		updated,
+		inserted,
+		unchanged,
+		skipped,
+		issues: issues.length,
+		unresolvedUrls,
+		insertedMeetings: result.insertedMeetings,
+		changes: result.changes,
+		documents,
+		http,
+	};
+}
+
+/**
+ * 取得できた会議をGoogleカレンダーに同期
+ * カレンダーIDが未設定の取得元と、取得が0件だった取得元はスキップする
+ * (0件の場合に全イベントを中止の可能性としないため)
+ */
+async function syncCalendars(results: SyncResult[], dryRun: boolean) {
+	const targets = results.filter(
+		(result) =>
+			result.status === "成功" &&
+			result.scraped > 0 &&
+			getCalendarId(result.source.id),
+	);
+	if (targets.length === 0) {
+		return;
+	}
+
+	const api = await getCalendarEventsApi();
+	for (const { source, meetings, unresolvedUrls } of targets) {
+		const calendarId = getCalendarId(source.id);
+		if (!calendarId) {
+			continue;
+		}
+
+		try {
+			const { created, updated, cancelled, unchanged, failed } =
+				await syncCalendar(api, calendarId, source, meetings, {
+					dryRun,
+					unresolvedUrls,
+				});
+			console.log(
+				`📅 ${source.displayName} calendar${dryRun ? " (dry-run)" : ""}: ${created} created, ${updated} updated (${cancelled} cancelled), ${unchanged} unchanged, ${failed} failed`,
+			);
+		} catch (error) {
+			console.error(
+				`Failed to sync ${source.displayName} to Google Calendar:`,
+				error,
+			);
+		}
+	}
+}
+
+/**
+ * sync コマンド: 取得元をスクレイピングして保存先に同期
+ * range を指定した場合 (backfill コマンド) は指定した期間の過去分を取り込み、
+ * カレンダーへの同期・出力と通知は行わない
+ * 失敗した取得元がある場合は終了コード1を返す
+ */
+export async function runSync(options: {
+	sources: MeetingSource[];
+	allSources: MeetingSource[]; // 全取得元 (全取得元をまとめた一覧・カレンダーの作成用)
+	dryRun: boolean;
+	refresh: boolean;
+	range?: MonthRange;
+}): Promise<number> {
+	const { sources, allSources, dryRun, refresh, range } = options;
+
+	console.log(
+		dryRun ? "🚀 Start updating (dry-run)..." : "🚀 Start updating...",
+	);
+	if (range) {
+		console.log(`🗂️ Backfilling meetings from ${range.from} to ${range.to}`);
+	}
+	console.log("----------------------------------------");
+
+	const store = getStore();
+	const watchlist = await loadWatchlist();
+	const runId = createRunId();
+	console.log(`🆔 Run ID: ${runId}`);
+	const results: SyncResult[] = [];
+	for (const source of sources) {
+		results.push(
+			await syncSource(
+				source,
+				store,
+				dryRun,
+				{ refresh, range },
+				watchlist,
+				runId,
+			),
+		);
+	}
+
+	// 全取得元をまとめた一覧を作り直す (取得元を絞り込んだ場合も全取得元の保存済みデータから作る)
+	if (!dryRun) {
+		try {
+			await store.rebuildViews(allSources);
+		} catch (error) {
+			console.error("Failed to rebuild overview sheets:", error);
+		}
+	}
+
+	// Googleカレンダーに同期 (過去分の取り込みでは一覧にない予定を中止の可能性としないよう行わない)
+	if (!range) {
+		try {
+			await syncCalendars(results, dryRun);
+		} catch (error) {
+			console.error("Failed to sync Google Calendar:", error);
+		}
+	}
+
+	// iCalendarファイルを出力 (失敗した取得元は前回のファイルを残す)
+	// 全取得元をまとめたファイルは、全取得元の取得に成功した場合のみ書き換える
+	if (!dryRun && !range) {
+		try {
+			await exportCalendars(
+				results
+					.filter((result) => result.status === "成功")
+					.map((result) =>
+						watchlist.filterExport ? filterRelevant(result, watchlist) : result,
+					),
+				{
+					combined:
+						results.every((result) => result.status === "成功") &&
+						allSources.every((source) => sources.includes(source)),
+				},
+			);
+		} catch (error) {
+			console.error("Failed to export calendars:", error);
+		}
+
+		// 新規・日程変更・失敗・取得0件をWebhookで通知
+		try {
+			await notifySyncResults(
+				watchlist.filterNotify
+					? results.map((result) => filterRelevant(result, watchlist))
+					: results,
+			);
+		} catch (error) {
+			console.error("Failed to send notification:", error);
+		}
+	}
+
+	console.log("----------------------------------------");
+	for (const result of results) {
+		const mark = result.status === "成功" ? "✅" : "❌";
+		console.log(
+			`${mark} ${result.source.displayName}: ${result.scraped} scraped, ${result.updated} updated, ${result.inserted} inserted, ${result.unchanged} unchanged`,
+		);
+	}
+
+	const failed = results.filter((result) => result.status === "失敗");
+	if (failed.length > 0) {
+		console.error(
+			`❌ Failed sources: ${failed.map((result) => result.source.displayName).join(", ")}`,
+		);
+		console.log("----------------------------------------");
+		return 1;
+	}
+
+	console.log("🎉 All scraping completed successfully!");
+	console.log("----------------------------------------");
+	return 0;
+}
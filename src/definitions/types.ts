@@ -4,7 +4,235 @@
 export interface MeetingData {
 	name: string; // 審議会名
 	date: string; // 開催日 (YYYY-MM-DD形式)
-	time: string; // 開催時間 (HH:MM～HH:MM形式)
+	time: string; // 開催時間 (ページ上の表記のまま。例: 10時00分～12時00分)
+	startTime: string; // 開始時刻 (HH:MM形式、JST。不明な場合は空文字)
+	endTime: string; // 終了時刻 (HH:MM形式、JST。不明な場合は空文字)
+	allDay: boolean; // 時刻が未定または取得できなかった場合は true
 	agenda: string; // 議題
 	detailUrl: string; // 詳細ページURL (一意キー)
+	cancelNotice: CancelNotice; // ページ上の中止・延期の告知
+	venue: string; // 場所 (ページ上の表記のまま)
+	format: MeetingFormat; // 開催形式
+	livestreamUrl: string; // ライブ配信のURL (ない場合は空文字)
+	viewingDeadline: string; // 傍聴申込締切 (YYYY-MM-DD形式、不明な場合は空文字)
+	tags?: string[]; // 関連タグ (ウォッチリストに一致したラベル。同期時に付与)
+	documents?: MeetingDocument[]; // 詳細ページに掲載された資料
+}
+
+/**
+ * 詳細ページに掲載される資料の種別
+ */
+export type DocumentKind = "配布資料" | "議事要旨" | "議事録";
+
+/**
+ * 詳細ページに掲載された資料
+ */
+export interface MeetingDocument {
+	kind: DocumentKind; // 種別
+	title: string; // リンクのテキスト
+	url: string; // 資料のURL
+	fileType: string; // ファイル形式 (例: PDF, HTML)
+}
+
+/**
+ * 会議ごとの資料一覧 (資料の保存用)
+ */
+export interface MeetingDocuments {
+	detailUrl: string; // 詳細ページURL
+	name: string; // 審議会名
+	date: string; // 開催日
+	documents: MeetingDocument[];
+}
+
+/**
+ * 新規に確認した資料 (資料の保存結果用)
+ */
+export type DocumentEntry = MeetingDocument & {
+	detailUrl: string; // 詳細ページURL
+	name: string; // 審議会名
+};
+
+/**
+ * 開催形式 (判定できない場合は空文字)
+ */
+export type MeetingFormat = "" | "対面" | "オンライン" | "ハイブリッド";
+
+/**
+ * 詳細ページから抽出する場所・開催形式・傍聴の情報
+ */
+export type AttendanceInfo = Pick<
+	MeetingData,
+	"venue" | "format" | "livestreamUrl" | "viewingDeadline"
+>;
+
+/**
+ * 会議名から解析した会議体の階層と回次
+ */
+export interface CommitteeInfo {
+	council: string; // 親審議会 (例: 総合資源エネルギー調査会。合同会議で複数の場合は " / " 区切り)
+	subcommittees: string; // 分科会・部会・小委員会 (上位から " > " 区切り。合同会議の場合は会議体ごとに " / " 区切り)
+	workingGroup: string; // ワーキンググループ・研究会など (ない場合は空文字)
+	session: string; // 回次 (例: "80"。記載がない場合は空文字)
+	joint: boolean; // 合同会議か
+}
+
+/**
+ * 中止・延期の告知 (告知がない場合は空文字)
+ */
+export type CancelNotice = "" | "中止" | "延期";
+
+/**
+ * シート上で管理する会議のステータス
+ */
+export type MeetingStatus = "予定" | "開催済" | "掲載終了" | "中止の可能性";
+
+/**
+ * 会議データの変更内容の型定義
+ */
+export interface MeetingChange {
+	detailUrl: string; // 詳細ページURL
+	name: string; // 審議会名 (変更後)
+	field: "審議会名" | "開催日" | "開催時間" | "議題" | "ステータス"; // 変更された項目
+	before: string; // 変更前の値
+	after: string; // 変更後の値
+}
+
+/**
+ * 開催時間の型定義
+ */
+export interface TimeRange {
+	startTime: string; // 開始時刻 (HH:MM形式)
+	endTime: string; // 終了時刻 (HH:MM形式、不明な場合は空文字)
+	allDay: boolean; // 時刻が未定または取得できなかった場合は true
+}
+
+/**
+ * スクレイピングのオプション
+ */
+export interface ScrapeOptions {
+	refresh?: boolean; // 詳細ページのキャッシュを使わずに再取得する
+	onIssue?: (issue: ValidationIssue) => void; // 取得時の問題 (詳細ページの取得失敗・スキップ) を報告する関数
+	range?: MonthRange; // 取得する期間 (過去分の取り込み用。未指定の場合は既定の期間)
+}
+
+/**
+ * 月単位の期間 (両端を含む)
+ */
+export interface MonthRange {
+	from: string; // 開始月 (YYYY-MM形式)
+	to: string; // 終了月 (YYYY-MM形式)
+}
+
+/**
+ * 要確認とする理由
+ */
+export type IssueReason =
+	| "日付不明"
+	| "時間が自由記述"
+	| "議題なし"
+	| "詳細ページ取得失敗"
+	| "スキップ";
+
+/**
+ * 要確認の会議データ
+ */
+export interface ValidationIssue {
+	detailUrl: string; // 詳細ページURL
+	name: string; // 審議会名
+	reason: IssueReason; // 理由
+	detail: string; // 詳細 (問題のある値やエラーメッセージ)
+}
+
+/**
+ * 会議情報の取得元の型定義
+ */
+export interface MeetingSource {
+	id: string; // 識別子 (例: "meti")
+	displayName: string; // 表示名 (ログ出力用)
+	sheetName: string; // 書き込み先シート名
+	historySheetName: string; // 実行履歴シート名
+	changeLogSheetName: string; // 変更履歴シート名
+	documentSheetName: string; // 資料一覧シート名
+	reviewSheetName: string; // 要確認シート名
+	archiveSheetName: string; // 過去の会議の移動先シート名
+	calendarColorId: string; // Googleカレンダーのイベントの色ID ("1"〜"11")
+	scrape: (options?: ScrapeOptions) => Promise<MeetingData[]>; // 会議データを取得する関数
+	fetchDocuments: (
+		detailUrl: string,
+		meetingDate: string,
+		options?: ScrapeOptions,
+	) => Promise<MeetingDocument[]>; // 一覧から外れた会議の資料を詳細ページから取得する関数
+}
+
+/**
+ * 会議データの保存結果の型定義
+ */
+export interface UpsertResult {
+	updated: number; // 更新件数
+	inserted: number; // 新規件数
+	unchanged: number; // 変更なし件数
+	changes: MeetingChange[]; // 更新した会議の変更内容
+	insertedMeetings: MeetingData[]; // 新規に追加した会議
+}
+
+/**
+ * 実行履歴の型定義 (取得元ごとに1件)
+ */
+export interface ExecutionRecord {
+	runId: string; // 実行ID (同じ実行の取得元で共通)
+	sourceId: string; // 取得元の識別子
+	startedAt: string; // 開始日時 (ISO 8601形式)
+	finishedAt: string; // 終了日時 (ISO 8601形式)
+	durationMs: number; // 所要時間 (ミリ秒)
+	status: "成功" | "失敗"; // ステータス
+	scraped: number; // 取得件数
+	inserted: number; // 新規件数
+	updated: number; // 更新件数
+	unchanged: number; // 変更なし件数
+	skipped: number; // 取得時にスキップした件数
+	documents: number; // 新規に確認した資料の件数
+	issues: number; // 要確認の件数
+	httpRequests: number; // HTTPリクエスト数 (リトライを含む)
+	httpRetries: number; // HTTPリトライ回数
+	httpErrors: number; // HTTP取得に最終的に失敗した件数
+	errorDetail: string; // エラー詳細 (スタックトレース。成功時は空文字)
+}
+
+/**
+ * 会議データの保存先の型定義
+ */
+export interface MeetingStore {
+	name: string; // 保存先の名前 (ログ出力用)
+	upsertMeetings: (
+		source: MeetingSource,
+		meetings: MeetingData[],
+		options?: {
+			dryRun?: boolean;
+			partial?: boolean;
+			unresolvedUrls?: string[];
+		},
+	) => Promise<UpsertResult>; // 会議データを更新/挿入する関数 (dryRun の場合は差分の計算のみ、partial の場合は取得結果に含まれない会議のステータスを再判定しない、unresolvedUrls の会議は一覧に掲載中とみなし保存済みの値とステータスを変更しない)
+	logExecution: (
+		source: MeetingSource,
+		record: ExecutionRecord,
+	) => Promise<void>; // 実行履歴を記録する関数
+	listMeetings: (source: MeetingSource) => Promise<MeetingData[]>; // 保存済みの会議データを取得する関数
+	listExecutions: (
+		source: MeetingSource,
+		limit: number,
+	) => Promise<ExecutionRecord[]>; // 最近の実行履歴を新しい順に取得する関数
+	upsertDocuments: (
+		source: MeetingSource,
+		meetings: MeetingDocuments[],
+		options?: { dryRun?: boolean },
+	) => Promise<DocumentEntry[]>; // 新規の資料を追加し、追加した資料を返す関数 (dryRun の場合は差分の計算のみ)
+	saveIssues: (
+		source: MeetingSource,
+		issues: ValidationIssue[],
+	) => Promise<void>; // 要確認の一覧を今回の結果で置き換える関数
+	tidyMeetings: (
+		source: MeetingSource,
+		options: { changedSince: Date; archive: boolean },
+	) => Promise<void>; // 同期後に保存済みの会議データを整理する関数 (並べ替え・書式、archive の場合は過去の会議の移動)
+	rebuildViews: (sources: MeetingSource[]) => Promise<void>; // 全取得元をまとめた一覧 (全体・今週・来週) を作り直す関数
 }
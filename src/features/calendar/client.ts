@@ -0,0 +1,59 @@
+import { type calendar_v3, google } from "googleapis";
+
+/**
+ * 同期に使うGoogle Calendar APIのイベント操作
+ * テストではこのインターフェースを満たすモックに差し替えられる
+ */
+export interface CalendarEventsApi {
+	list: (
+		params: calendar_v3.Params$Resource$Events$List,
+	) => Promise<{ data: calendar_v3.Schema$Events }>;
+	insert: (
+		params: calendar_v3.Params$Resource$Events$Insert,
+	) => Promise<{ data: calendar_v3.Schema$Event }>;
+	patch: (
+		params: calendar_v3.Params$Resource$Events$Patch,
+	) => Promise<{ data: calendar_v3.Schema$Event }>;
+}
+
+/**
+ * 取得元の書き込み先カレンダーIDを取得
+ * GOOGLE_CALENDAR_ID_<取得元ID> (例: GOOGLE_CALENDAR_ID_METI) を優先し、
+ * なければ GOOGLE_CALENDAR_ID を使う。どちらも未設定の場合は undefined
+ */
+export function getCalendarId(sourceId: string): string | undefined {
+	return (
+		process.env[`GOOGLE_CALENDAR_ID_${sourceId.toUpperCase()}`] ||
+		process.env.GOOGLE_CALENDAR_ID ||
+		undefined
+	);
+}
+
+/**
+ * Google Calendar APIクライアントを取得
+ * スプレッドシートと同じサービスアカウントのユーザー偽装を使う
+ */
+export async function getCalendarEventsApi(): Promise<CalendarEventsApi> {
+	const subject = process.env.GOOGLE_IMPERSONATE_SUBJECT;
+	if (!subject) {
+		throw new Error("GOOGLE_IMPERSONATE_SUBJECT is not set");
+	}
+
+	const auth = new google.auth.GoogleAuth({
+		scopes: ["https://www.googleapis.com/auth/calendar"],
+		clientOptions: { subject },
+	});
+
+	const authClient = await auth.getClient();
+	const calendar = google.calendar({
+		version: "v3",
+		// biome-ignore lint/suspicious/noExplicitAny: allow any
+		auth: authClient as any,
+	});
+
+	return {
+		list: (params) => calendar.events.list(params),
+		insert: (params) => calendar.events.insert(params),
+		patch: (params) => calendar.events.patch(params),
+	};
+}
@@ -0,0 +1,274 @@
+import { describe, expect, test } from "bun:test";
+import type { calendar_v3 } from "googleapis";
+import type { MeetingData, MeetingSource } from "@/definitions/types";
+import type { CalendarEventsApi } from "./client";
+import { syncCalendar, toCalendarEvent } from "./sync";
+
+const CALENDAR_ID = "test@group.calendar.google.com";
+const TODAY = "2026-10-19";
+
+const source = {
+	id: "meti",
+	displayName: "METI",
+	sheetName: "経済産業省",
+	calendarColorId: "9",
+} as MeetingSource;
+
+function meeting(overrides: Partial<MeetingData> = {}): MeetingData {
+	return {
+		name: "総合資源エネルギー調査会 基本政策分科会",
+		date: "2026-10-27",
+		time: "10時00分～12時00分",
+		startTime: "10:00",
+		endTime: "12:00",
+		allDay: false,
+		agenda: "エネルギー基本計画について",
+		detailUrl: "https://www.meti.go.jp/shingikai/enecho/kihon_seisaku/001.html",
+		cancelNotice: "",
+		venue: "オンライン",
+		format: "オンライン",
+		livestreamUrl: "",
+		viewingDeadline: "",
+		...overrides,
+	};
+}
+
+/**
+ * メモリー上にイベントを保持するCalendar APIのモック
+ * failUrls に含まれる詳細URLのイベントの作成・更新は失敗させる
+ */
+function createMockApi(failUrls: string[] = []) {
+	const events = new Map<string, calendar_v3.Schema$Event>();
+	const calls = { insert: 0, patch: 0 };
+	let nextId = 1;
+
+	function assertWritable(event: calendar_v3.Schema$Event | undefined) {
+		const detailUrl = event?.extendedProperties?.private?.detailUrl ?? "";
+		if (failUrls.includes(detailUrl)) {
+			throw new Error(`Bad Request: ${detailUrl}`);
+		}
+	}
+
+	const api: CalendarEventsApi = {
+		list: async (params) => {
+			const [filter = ""] = params.privateExtendedProperty ?? [];
+			const [key = "", value] = filter.split("=");
+			return {
+				data: {
+					items: [...events.values()].filter(
+						(event) => event.extendedProperties?.private?.[key] === value,
+					),
+				},
+			};
+		},
+		insert: async (params) => {
+			calls.insert++;
+			assertWritable(params.requestBody);
+			const event = { ...params.requestBody, id: `event-${nextId++}` };
+			events.set(event.id, event);
+			return { data: event };
+		},
+		patch: async (params) => {
+			calls.patch++;
+			const current = events.get(params.eventId ?? "");
+			if (!current) {
+				throw new Error(`Not Found: ${params.eventId}`);
+			}
+			assertWritable(current);
+			const event = { ...current, ...params.requestBody };
+			events.set(current.id ?? "", event);
+			return { data: event };
+		},
+	};
+
+	return { api, events, calls };
+}
+
+describe("syncCalendar", () => {
+	test("新規の会議はイベントを作成する", async () => {
+		const { api, events } = createMockApi();
+
+		const result = await syncCalendar(api, CALENDAR_ID, source, [meeting()], {
+			today: TODAY,
+		});
+
+		expect(result).toEqual({
+			created: 1,
+			updated: 0,
+			cancelled: 0,
+			unchanged: 0,
+			failed: 0,
+		});
+		const [event] = [...events.values()];
+		expect(event?.summary).toBe("総合資源エネルギー調査会 基本政策分科会");
+		expect(event?.start).toEqual({
+			dateTime: "2026-10-27T10:00:00",
+			timeZone: "Asia/Tokyo",
+		});
+		expect(event?.end).toEqual({
+			dateTime: "2026-10-27T12:00:00",
+			timeZone: "Asia/Tokyo",
+		});
+		expect(event?.extendedProperties?.private).toMatchObject({
+			sourceId: "meti",
+			detailUrl: meeting().detailUrl,
+			status: "予定",
+		});
+	});
+
+	test("内容が変わった会議はイベントを更新する", async () => {
+		const { api, events, calls } = createMockApi();
+		await syncCalendar(api, CALENDAR_ID, source, [meeting()], {
+			today: TODAY,
+		});
+
+		const result = await syncCalendar(
+			api,
+			CALENDAR_ID,
+			source,
+			[meeting({ startTime: "13:00", endTime: "15:00" })],
+			{ today: TODAY },
+		);
+
+		expect(result).toMatchObject({ created: 0, updated: 1, cancelled: 0 });
+		expect(calls.patch).toBe(1);
+		expect(events.size).toBe(1);
+		expect([...events.values()][0]?.start?.dateTime).toBe(
+			"2026-10-27T13:00:00",
+		);
+	});
+
+	test("一覧から消えた開催前の会議は中止の可能性としてタイトルを変更する", async () => {
+		const { api, events } = createMockApi();
+		await syncCalendar(api, CALENDAR_ID, source, [meeting()], {
+			today: TODAY,
+		});
+
+		const result = await syncCalendar(api, CALENDAR_ID, source, [], {
+			today: TODAY,
+		});
+
+		expect(result).toMatchObject({ updated: 1, cancelled: 1 });
+		const [event] = [...events.values()];
+		expect(event?.summary).toBe(
+			"【中止の可能性】総合資源エネルギー調査会 基本政策分科会",
+		);
+		expect(event?.extendedProperties?.private?.status).toBe("中止の可能性");
+	});
+
+	test("詳細ページの取得に失敗・スキップした会議のイベントは変更しない", async () => {
+		const skipped = meeting({
+			detailUrl: "https://www.meti.go.jp/shingikai/enecho/002.html",
+		});
+		const { api, events, calls } = createMockApi();
+		await syncCalendar(api, CALENDAR_ID, source, [meeting(), skipped], {
+			today: TODAY,
+		});
+		const before = { ...calls };
+
+		// 取得に失敗した会議は空の値、スキップした会議は取得結果に含まれない
+		const result = await syncCalendar(
+			api,
+			CALENDAR_ID,
+			source,
+			[meeting({ time: "", startTime: "", endTime: "", agenda: "" })],
+			{
+				today: TODAY,
+				unresolvedUrls: [meeting().detailUrl, skipped.detailUrl],
+			},
+		);
+
+		expect(result).toMatchObject({ updated: 0, cancelled: 0, unchanged: 1 });
+		expect(calls).toEqual(before);
+		expect([...events.values()].map((event) => event.summary)).toEqual([
+			meeting().name,
+			skipped.name,
+		]);
+	});
+
+	test("同じ内容で再実行しても書き込まない", async () => {
+		const { api, calls } = createMockApi();
+		const meetings = [
+			meeting(),
+			meeting({
+				detailUrl: "https://www.meti.go.jp/shingikai/enecho/002.html",
+				allDay: true,
+				startTime: "",
+				endTime: "",
+			}),
+		];
+		await syncCalendar(api, CALENDAR_ID, source, meetings, { today: TODAY });
+		await syncCalendar(api, CALENDAR_ID, source, [], { today: TODAY });
+		await syncCalendar(api, CALENDAR_ID, source, meetings, { today: TODAY });
+		const before = { ...calls };
+
+		const result = await syncCalendar(api, CALENDAR_ID, source, meetings, {
+			today: TODAY,
+		});
+
+		expect(result).toMatchObject({ created: 0, updated: 0, unchanged: 2 });
+		expect(calls).toEqual(before);
+	});
+
+	test("1件の書き込みに失敗しても残りの会議の同期を続ける", async () => {
+		const failing = meeting({
+			detailUrl: "https://www.meti.go.jp/shingikai/enecho/bad.html",
+		});
+		const { api, events } = createMockApi([failing.detailUrl]);
+
+		const result = await syncCalendar(
+			api,
+			CALENDAR_ID,
+			source,
+			[failing, meeting()],
+			{ today: TODAY },
+		);
+
+		expect(result).toMatchObject({ created: 1, failed: 1 });
+		expect(events.size).toBe(1);
+	});
+
+	test("dryRun の場合は書き込まない", async () => {
+		const { api, calls } = createMockApi();
+
+		const result = await syncCalendar(api, CALENDAR_ID, source, [meeting()], {
+			today: TODAY,
+			dryRun: true,
+		});
+
+		expect(result.created).toBe(1);
+		expect(calls).toEqual({ insert: 0, patch: 0 });
+	});
+});
+
+describe("toCalendarEvent", () => {
+	test("終了時刻がない場合は開始時刻と同じにする", () => {
+		const event = toCalendarEvent(source, meeting({ endTime: "" }), "予定");
+		expect(event?.end?.dateTime).toBe("2026-10-27T10:00:00");
+	});
+
+	test("終了時刻が 24:00 の場合は翌日の 00:00 にする", () => {
+		const event = toCalendarEvent(
+			source,
+			meeting({ startTime: "22:00", endTime: "24:00" }),
+			"予定",
+		);
+		expect(event?.end?.dateTime).toBe("2026-10-28T00:00:00");
+	});
+
+	test("時刻が不明な場合は終日イベントにする", () => {
+		const event = toCalendarEvent(
+			source,
+			meeting({ allDay: true, startTime: "", endTime: "" }),
+			"予定",
+		);
+		expect(event?.start).toEqual({ date: "2026-10-27" });
+		expect(event?.end).toEqual({ date: "2026-10-28" });
+	});
+
+	test("開催日が不明な場合は作成しない", () => {
+		expect(toCalendarEvent(source, meeting({ date: "未定" }), "予定")).toBe(
+			undefined,
+		);
+	});
+});
@@ -0,0 +1,317 @@
+import { createHash } from "node:crypto";
+import type { calendar_v3 } from "googleapis";
+import type {
+	MeetingData,
+	MeetingSource,
+	MeetingStatus,
+} from "@/definitions/types";
+import { resolveStatus } from "@/features/storage/status";
+import { getJstDateString, resolveEndDateTime } from "@/utils/time";
+import type { CalendarEventsApi } from "./client";
+
+const TIME_ZONE = "Asia/Tokyo";
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * カレンダー同期の結果
+ */
+export interface CalendarSyncResult {
+	created: number; // 作成したイベント数
+	updated: number; // 更新したイベント数 (中止の可能性への変更を含む)
+	cancelled: number; // 中止の可能性として更新したイベント数
+	unchanged: number; // 変更のなかったイベント数
+	failed: number; // 作成・更新に失敗したイベント数
+}
+
+/**
+ * イベントの拡張プロパティ (private) に保存する情報
+ */
+interface EventProperties {
+	sourceId: string;
+	detailUrl: string; // 一意キー
+	date: string; // 開催日 (一覧から消えた会議のステータス判定用)
+	status: MeetingStatus;
+	hash: string; // イベント内容のハッシュ (変更判定用)
+	[key: string]: string;
+}
+
+/**
+ * "YYYY-MM-DD" の翌日を返す (終日イベントの終了日用)
+ */
+function nextDate(date: string): string {
+	const next = new Date(`${date}T00:00:00Z`);
+	next.setUTCDate(next.getUTCDate() + 1);
+	return next.toISOString().substring(0, 10);
+}
+
+/**
+ * 会議データとステータスからイベントを作成
+ * 開催日が YYYY-MM-DD 形式でない場合は作成できないため undefined を返す
+ */
+export function toCalendarEvent(
+	source: MeetingSource,
+	meeting: MeetingData,
+	status: MeetingStatus,
+): calendar_v3.Schema$Event | undefined {
+	if (!DATE_PATTERN.test(meeting.date)) {
+		return undefined;
+	}
+
+	const allDay = meeting.allDay || !meeting.startTime;
+	const start = allDay
+		? { date: meeting.date }
+		: {
+				dateTime: `${meeting.date}T${meeting.startTime}:00`,
+				timeZone: TIME_ZONE,
+			};
+	// 終了時刻が不明な場合や開始時刻より前の場合は開始時刻と同じにする
+	const endDateTime = resolveEndDateTime(
+		meeting.date,
+		meeting.startTime,
+		meeting.endTime,
+	);
+	const end = allDay
+		? { date: nextDate(meeting.date) }
+		: {
+				dateTime: `${endDateTime.date}T${endDateTime.time}:00`,
+				timeZone: TIME_ZONE,
+			};
+
+	const descriptions: string[] = [];
+	if (allDay && meeting.time) {
+		descriptions.push(`開催時間: ${meeting.time}`);
+	}
+	if (meeting.viewingDeadline) {
+		descriptions.push(`傍聴申込締切: ${meeting.viewingDeadline}`);
+	}
+	if (meeting.livestreamUrl) {
+		descriptions.push(`配信: ${meeting.livestreamUrl}`);
+	}
+	if (meeting.agenda) {
+		descriptions.push(meeting.agenda);
+	}
+	descriptions.push(meeting.detailUrl);
+
+	const content = {
+		summary:
+			status === "中止の可能性"
+				? `【中止の可能性】${meeting.name}`
+				: meeting.name,
+		description: descriptions.join("\n\n"),
+		location: meeting.venue,
+		start,
+		end,
+		colorId: source.calendarColorId || undefined,
+	};
+	const hash = createHash("sha1").update(JSON.stringify(content)).digest("hex");
+	const properties: EventProperties = {
+		sourceId: source.id,
+		detailUrl: meeting.detailUrl,
+		date: meeting.date,
+		status,
+		hash,
+	};
+
+	return {
+		...content,
+		extendedProperties: { private: properties },
+	};
+}
+
+/**
+ * 取得元のイベントを詳細URLをキーに取得
+ */
+async function listSourceEvents(
+	api: CalendarEventsApi,
+	calendarId: string,
+	source: MeetingSource,
+): Promise<Map<string, calendar_v3.Schema$Event>> {
+	const events = new Map<string, calendar_v3.Schema$Event>();
+	let pageToken: string | undefined;
+
+	do {
+		const { data } = await api.list({
+			calendarId,
+			privateExtendedProperty: [`sourceId=${source.id}`],
+			maxResults: 2500,
+			pageToken,
+		});
+		for (const event of data.items ?? []) {
+			const detailUrl = event.extendedProperties?.private?.detailUrl;
+			if (detailUrl) {
+				events.set(detailUrl, event);
+			}
+		}
+		pageToken = data.nextPageToken ?? undefined;
+	} while (pageToken);
+
+	return events;
+}
+
+/**
+ * 会議データをGoogleカレンダーに同期
+ * 詳細URL (拡張プロパティ) をキーに、新規の会議はイベントを作成し、内容が変わった会議は更新する
+ * 一覧から消えた開催前の会議や中止・延期の告知がある会議は「中止の可能性」としてタイトルを変更する
+ * 詳細ページの取得に失敗・スキップした会議 (unresolvedUrls) は一覧に掲載中とみなし、既存のイベントを変更しない
+ * 1件の作成・更新に失敗しても、エラーを記録して残りのイベントの同期を続ける
+ * dryRun の場合は差分の計算のみ行い、カレンダーには書き込まない
+ */
+export async function syncCalendar(
+	api: CalendarEventsApi,
+	calendarId: string,
+	source: MeetingSource,
+	meetings: MeetingData[],
+	options: { dryRun?: boolean; today?: string; unresolvedUrls?: string[] } = {},
+): Promise<CalendarSyncResult> {
+	const today = options.today ?? getJstDateString();
+	const unresolvedUrls = new Set(options.unresolvedUrls);
+	const existingEvents = await listSourceEvents(api, calendarId, source);
+	const result: CalendarSyncResult = {
+		created: 0,
+		updated: 0,
+		cancelled: 0,
+		unchanged: 0,
+		failed: 0,
+	};
+
+	/**
+	 * イベントの作成・更新を実行 (失敗した場合はエラーを記録して false を返す)
+	 */
+	async function write(
+		detailUrl: string,
+		request: () => Promise<unknown>,
+	): Promise<boolean> {
+		if (options.dryRun) {
+			return true;
+		}
+		try {
+			await request();
+			return true;
+		} catch (error) {
+			console.error(`Failed to write calendar event for ${detailUrl}:`, error);
+			result.failed++;
+			return false;
+		}
+	}
+
+	/**
+	 * イベントを作成または更新 (内容のハッシュが同じ場合は何もしない)
+	 */
+	async function apply(
+		existing: calendar_v3.Schema$Event | undefined,
+		event: calendar_v3.Schema$Event,
+		status: MeetingStatus,
+	) {
+		const previous = existing?.extendedProperties?.private;
+		if (
+			existing &&
+			previous?.hash === event.extendedProperties?.private?.hash
+		) {
+			result.unchanged++;
+			return;
+		}
+
+		const detailUrl = event.extendedProperties?.private?.detailUrl ?? "";
+		const existingId = existing?.id;
+		if (!existingId) {
+			if (
+				await write(detailUrl, () =>
+					api.insert({ calendarId, requestBody: event }),
+				)
+			) {
+				result.created++;
+			}
+			return;
+		}
+
+		if (
+			!(await write(detailUrl, () =>
+				api.patch({
+					calendarId,
+					eventId: existingId,
+					requestBody: event,
+				}),
+			))
+		) {
+			return;
+		}
+		result.updated++;
+		if (status === "中止の可能性" && previous?.status !== "中止の可能性") {
+			result.cancelled++;
+		}
+	}
+
+	const processedUrls = new Set<string>();
+	for (const meeting of meetings) {
+		if (processedUrls.has(meeting.detailUrl)) {
+			continue;
+		}
+		processedUrls.add(meeting.detailUrl);
+
+		const existing = existingEvents.get(meeting.detailUrl);
+		// 詳細ページの取得に失敗した会議は空の値で上書きしない
+		if (existing && unresolvedUrls.has(meeting.detailUrl)) {
+			result.unchanged++;
+			continue;
+		}
+
+		const status = resolveStatus({
+			date: meeting.date,
+			listed: true,
+			cancelNotice: meeting.cancelNotice,
+			previousStatus: existing?.extendedProperties?.private?.status,
+			today,
+		});
+		const event = toCalendarEvent(source, meeting, status);
+		if (!event) {
+			continue;
+		}
+		await apply(existing, event, status);
+	}
+
+	// 今回の取得結果に含まれないイベントのステータスを再判定
+	for (const [detailUrl, existing] of existingEvents) {
+		const properties = existing.extendedProperties?.private;
+		if (
+			processedUrls.has(detailUrl) ||
+			unresolvedUrls.has(detailUrl) ||
+			!properties
+		) {
+			continue;
+		}
+
+		const status = resolveStatus({
+			date: properties.date ?? "",
+			listed: false,
+			cancelNotice: "",
+			previousStatus: properties.status,
+			today,
+		});
+		if (status !== "中止の可能性" || properties.status === status) {
+			continue;
+		}
+
+		const existingId = existing.id;
+		if (
+			existingId &&
+			!(await write(detailUrl, () =>
+				api.patch({
+					calendarId,
+					eventId: existingId,
+					requestBody: {
+						summary: `【中止の可能性】${existing.summary ?? ""}`,
+						extendedProperties: {
+							private: { ...properties, status, hash: "" },
+						},
+					},
+				}),
+			))
+		) {
+			continue;
+		}
+		result.updated++;
+		result.cancelled++;
+	}
+
+	return result;
+}
@@ -0,0 +1,53 @@
+import type { MeetingData } from "@/definitions/types";
+
+const CSV_HEADERS: Array<keyof MeetingData> = [
+	"name",
+	"date",
+	"time",
+	"startTime",
+	"endTime",
+	"allDay",
+	"agenda",
+	"detailUrl",
+	"cancelNotice",
+	"venue",
+	"format",
+	"livestreamUrl",
+	"viewingDeadline",
+	"tags",
+];
+
+/**
+ * CSVの値をエスケープ (RFC 4180)
+ */
+function escapeCsvValue(value: string): string {
+	if (/[",\r\n]/.test(value)) {
+		return `"${value.replace(/"/g, '""')}"`;
+	}
+	return value;
+}
+
+/**
+ * 値をCSVの文字列に変換 (関連タグなどの配列は ";" で連結)
+ */
+function formatValue(value: MeetingData[keyof MeetingData]): string {
+	if (value === undefined) {
+		return "";
+	}
+	return Array.isArray(value) ? value.join(";") : String(value);
+}
+
+/**
+ * 会議データをCSV形式の文字列に変換
+ */
+export function toCsv(meetings: MeetingData[]): string {
+	const lines = [CSV_HEADERS.join(",")];
+	for (const meeting of meetings) {
+		lines.push(
+			CSV_HEADERS.map((key) => escapeCsvValue(formatValue(meeting[key]))).join(
+				",",
+			),
+		);
+	}
+	return `${lines.join("\r\n")}\r\n`;
+}
@@ -0,0 +1,228 @@
+import { createHash } from "node:crypto";
+import { mkdir, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { MeetingData, MeetingSource } from "@/definitions/types";
+import { resolveEndDateTime } from "@/utils/time";
+
+const PRODUCT_ID = "-//committee-scheduler//Committee Schedule//JA";
+const TIME_ZONE = "Asia/Tokyo";
+const COMBINED_CALENDAR_NAME = "審議会スケジュール";
+const COMBINED_FILE_NAME = "all.ics";
+
+// JSTは夏時間がないため固定オフセットのVTIMEZONEで十分
+const VTIMEZONE = [
+	"BEGIN:VTIMEZONE",
+	`TZID:${TIME_ZONE}`,
+	"BEGIN:STANDARD",
+	"DTSTART:19700101T000000",
+	"TZOFFSETFROM:+0900",
+	"TZOFFSETTO:+0900",
+	"TZNAME:JST",
+	"END:STANDARD",
+	"END:VTIMEZONE",
+];
+
+function getOutputDir() {
+	return process.env.ICS_OUTPUT_DIR || "out";
+}
+
+/**
+ * TEXT型の値をエスケープ (RFC 5545 3.3.11)
+ */
+function escapeText(value: string): string {
+	return value
+		.replace(/\\/g, "\\\\")
+		.replace(/;/g, "\\;")
+		.replace(/,/g, "\\,")
+		.replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * 1行を75オクテット以内に折り返す (RFC 5545 3.1)
+ * マルチバイト文字の途中では分割しない
+ */
+function foldLine(line: string): string {
+	const lines: string[] = [];
+	let current = "";
+	let currentBytes = 0;
+
+	for (const char of line) {
+		const charBytes = Buffer.byteLength(char);
+		// 継続行は先頭の空白1文字分を差し引く
+		const limit = lines.length === 0 ? 75 : 74;
+		if (currentBytes + charBytes > limit) {
+			lines.push(current);
+			current = "";
+			currentBytes = 0;
+		}
+		current += char;
+		currentBytes += charBytes;
+	}
+	lines.push(current);
+
+	return lines.join("\r\n ");
+}
+
+/**
+ * "YYYY-MM-DD" を "YYYYMMDD" に変換
+ */
+function toIcsDate(date: string): string {
+	return date.replace(/-/g, "");
+}
+
+/**
+ * 翌日の日付を "YYYYMMDD" 形式で返す (終日イベントのDTEND用)
+ */
+function nextIcsDate(date: string): string {
+	const next = new Date(`${date}T00:00:00Z`);
+	next.setUTCDate(next.getUTCDate() + 1);
+	return next.toISOString().substring(0, 10).replace(/-/g, "");
+}
+
+/**
+ * 現在時刻をUTCの "YYYYMMDDTHHMMSSZ" 形式で返す (DTSTAMP用)
+ */
+function nowIcsTimestamp(): string {
+	return `${new Date().toISOString().replace(/[-:]/g, "").substring(0, 15)}Z`;
+}
+
+/**
+ * 詳細URLから安定したUIDを生成
+ */
+function buildUid(detailUrl: string): string {
+	const hash = createHash("sha1").update(detailUrl).digest("hex");
+	return `${hash}@committee-scheduler`;
+}
+
+/**
+ * 会議データ1件をVEVENTに変換
+ * 開催日が YYYY-MM-DD 形式でない場合は出力できないため undefined を返す
+ */
+function buildEvent(
+	meeting: MeetingData,
+	timestamp: string,
+): string[] | undefined {
+	if (!/^\d{4}-\d{2}-\d{2}$/.test(meeting.date)) {
+		console.warn(
+			`Skipping calendar event due to invalid date: ${meeting.detailUrl}`,
+		);
+		return undefined;
+	}
+
+	const lines = [
+		"BEGIN:VEVENT",
+		`UID:${buildUid(meeting.detailUrl)}`,
+		`DTSTAMP:${timestamp}`,
+	];
+
+	const date = toIcsDate(meeting.date);
+	if (meeting.allDay || !meeting.startTime) {
+		// 時刻が取得できない場合は終日イベントとして出力
+		lines.push(`DTSTART;VALUE=DATE:${date}`);
+		lines.push(`DTEND;VALUE=DATE:${nextIcsDate(meeting.date)}`);
+	} else {
+		const start = meeting.startTime.replace(":", "");
+		lines.push(`DTSTART;TZID=${TIME_ZONE}:${date}T${start}00`);
+		// 終了時刻が不明な場合は開始時刻と同じにする ("24:00" は翌日の 00:00)
+		const end = resolveEndDateTime(
+			meeting.date,
+			meeting.startTime,
+			meeting.endTime,
+		);
+		lines.push(
+			`DTEND;TZID=${TIME_ZONE}:${toIcsDate(end.date)}T${end.time.replace(":", "")}00`,
+		);
+	}
+
+	const descriptions: string[] = [];
+	if ((meeting.allDay || !meeting.startTime) && meeting.time) {
+		descriptions.push(`開催時間: ${meeting.time}`);
+	}
+	if (meeting.viewingDeadline) {
+		descriptions.push(`傍聴申込締切: ${meeting.viewingDeadline}`);
+	}
+	if (meeting.livestreamUrl) {
+		descriptions.push(`配信: ${meeting.livestreamUrl}`);
+	}
+	if (meeting.agenda) {
+		descriptions.push(meeting.agenda);
+	}
+
+	lines.push(`SUMMARY:${escapeText(meeting.name)}`);
+	if (meeting.venue) {
+		lines.push(`LOCATION:${escapeText(meeting.venue)}`);
+	}
+	if (descriptions.length > 0) {
+		lines.push(`DESCRIPTION:${escapeText(descriptions.join("\n"))}`);
+	}
+	lines.push(`URL:${meeting.detailUrl}`);
+	lines.push("END:VEVENT");
+
+	return lines;
+}
+
+/**
+ * 会議データからiCalendar (RFC 5545) 形式の文字列を作成
+ */
+export function buildCalendar(
+	meetings: MeetingData[],
+	calendarName: string,
+): string {
+	const timestamp = nowIcsTimestamp();
+
+	const lines = [
+		"BEGIN:VCALENDAR",
+		"VERSION:2.0",
+		`PRODID:${PRODUCT_ID}`,
+		"CALSCALE:GREGORIAN",
+		"METHOD:PUBLISH",
+		`X-WR-CALNAME:${escapeText(calendarName)}`,
+		`X-WR-TIMEZONE:${TIME_ZONE}`,
+		...VTIMEZONE,
+	];
+
+	for (const meeting of meetings) {
+		const event = buildEvent(meeting, timestamp);
+		if (event) {
+			lines.push(...event);
+		}
+	}
+
+	lines.push("END:VCALENDAR");
+
+	return `${lines.map(foldLine).join("\r\n")}\r\n`;
+}
+
+/**
+ * 取得元ごとのiCalendarファイルと、全取得元をまとめたファイルを出力
+ * combined が false の場合 (一部の取得元のみの結果の場合) はまとめたファイルを書き換えない
+ * 出力先は ICS_OUTPUT_DIR (未設定の場合は out/)
+ */
+export async function exportCalendars(
+	entries: Array<{ source: MeetingSource; meetings: MeetingData[] }>,
+	options: { combined: boolean } = { combined: true },
+): Promise<void> {
+	const outputDir = getOutputDir();
+	await mkdir(outputDir, { recursive: true });
+
+	for (const { source, meetings } of entries) {
+		const filePath = join(outputDir, `${source.id}.ics`);
+		await writeFile(filePath, buildCalendar(meetings, source.sheetName));
+		console.log(`Exported ${meetings.length} meetings to ${filePath}`);
+	}
+
+	if (!options.combined) {
+		console.log(
+			`Skipped ${COMBINED_FILE_NAME} because some sources were not synced`,
+		);
+		return;
+	}
+
+	const allMeetings = entries.flatMap(({ meetings }) => meetings);
+	const combinedPath = join(outputDir, COMBINED_FILE_NAME);
+	await writeFile(
+		combinedPath,
+		buildCalendar(allMeetings, COMBINED_CALENDAR_NAME),
+	);
+	console.log(`Exported ${allMeetings.length} meetings to ${combinedPath}`);
+}
@@ -0,0 +1,51 @@
+import { randomUUID } from "node:crypto";
+import { appendFile, mkdir } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { ExecutionRecord } from "@/definitions/types";
+
+/**
+ * 実行IDを作成 (1回の実行の全取得元で共通)
+ */
+export function createRunId(): string {
+	return randomUUID();
+}
+
+/**
+ * 実行履歴の件数を "取得N件、新規N件、…" の形式で返す (シートの処理件数列用)
+ */
+export function formatProcessedCount(record: ExecutionRecord): string {
+	return [
+		`取得${record.scraped}件`,
+		`新規${record.inserted}件`,
+		`更新${record.updated}件`,
+		`変更なし${record.unchanged}件`,
+		`スキップ${record.skipped}件`,
+		`新規資料${record.documents}件`,
+		`要確認${record.issues}件`,
+	].join("、");
+}
+
+/**
+ * 実行履歴を1行のJSONとして出力 (監視用)
+ * 出力先は環境変数 EXECUTION_LOG_PATH のファイル (未設定または "-" の場合は標準出力)
+ * 出力に失敗しても同期処理自体は継続する
+ */
+export async function writeExecutionLog(
+	record: ExecutionRecord,
+	extra: { dryRun: boolean },
+): Promise<void> {
+	const line = `${JSON.stringify({ type: "execution", ...record, ...extra })}\n`;
+	const path = process.env.EXECUTION_LOG_PATH;
+
+	if (!path || path === "-") {
+		process.stdout.write(line);
+		return;
+	}
+
+	try {
+		await mkdir(dirname(path), { recursive: true });
+		await appendFile(path, line);
+	} catch (error) {
+		console.error(`Failed to write execution log to ${path}:`, error);
+	}
+}
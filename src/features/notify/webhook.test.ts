@@ -0,0 +1,164 @@
+import { afterAll, beforeEach, describe, expect, test } from "bun:test";
+import type { MeetingData, MeetingSource } from "@/definitions/types";
+import { notifyFailure, notifySyncResults, type SourceReport } from "./webhook";
+
+const source = {
+	id: "meti",
+	displayName: "METI <経済産業省>",
+	sheetName: "経済産業省",
+} as MeetingSource;
+
+const meeting: MeetingData = {
+	name: "総合資源エネルギー調査会 基本政策分科会",
+	date: "2026-10-27",
+	time: "10時00分～12時00分",
+	startTime: "10:00",
+	endTime: "12:00",
+	allDay: false,
+	agenda: "",
+	detailUrl: "https://www.meti.go.jp/shingikai/enecho/kihon_seisaku/001.html",
+	cancelNotice: "",
+	venue: "",
+	format: "オンライン",
+	livestreamUrl: "",
+	viewingDeadline: "2026-10-20",
+	tags: ["基本計画"],
+};
+
+function report(overrides: Partial<SourceReport> = {}): SourceReport {
+	return {
+		source,
+		status: "成功",
+		scraped: 1,
+		insertedMeetings: [],
+		changes: [],
+		meetings: [meeting],
+		...overrides,
+	};
+}
+
+// Webhookの受信側の代わりにリクエストの本文を記録するローカルサーバー
+const received: unknown[] = [];
+const server = Bun.serve({
+	port: 0,
+	async fetch(request) {
+		received.push(await request.json());
+		return new Response("ok");
+	},
+});
+
+beforeEach(() => {
+	received.length = 0;
+	process.env.NOTIFY_WEBHOOK_URL = `http://localhost:${server.port}/hook`;
+	process.env.HTTP_MAX_RETRIES = "0";
+});
+
+afterAll(() => {
+	server.stop(true);
+	delete process.env.NOTIFY_WEBHOOK_URL;
+	delete process.env.NOTIFY_WEBHOOK_FORMAT;
+});
+
+describe("notifySyncResults", () => {
+	test("Slack形式で新規・日程変更・失敗を送信する", async () => {
+		process.env.NOTIFY_WEBHOOK_FORMAT = "slack";
+
+		await notifySyncResults([
+			report({
+				insertedMeetings: [meeting],
+				changes: [
+					{
+						detailUrl: meeting.detailUrl,
+						name: meeting.name,
+						field: "開催日",
+						before: "2026-10-20",
+						after: "2026-10-27",
+					},
+					{
+						detailUrl: meeting.detailUrl,
+						name: meeting.name,
+						field: "議題",
+						before: "",
+						after: "エネルギー基本計画について",
+					},
+				],
+			}),
+			report({ status: "失敗", scraped: 0, meetings: [], error: "HTTP 503" }),
+		]);
+
+		expect(received).toEqual([
+			{
+				text: [
+					"審議会スケジュールの更新",
+					"",
+					"*METI &lt;経済産業省&gt;*",
+					`:new: 2026-10-27 10時00分～12時00分 <${meeting.detailUrl}|${meeting.name}> [基本計画] (傍聴申込締切: 2026-10-20)`,
+					`:calendar: <${meeting.detailUrl}|${meeting.name}> (開催日: 2026-10-20 → 2026-10-27)`,
+					"",
+					"*METI &lt;経済産業省&gt;*",
+					":x: 取得に失敗しました: HTTP 503",
+				].join("\n"),
+			},
+		]);
+	});
+
+	test("JSON形式で取得元ごとの結果を送信する", async () => {
+		process.env.NOTIFY_WEBHOOK_FORMAT = "json";
+
+		await notifySyncResults([report({ scraped: 0, meetings: [] })]);
+
+		expect(received).toEqual([
+			{
+				event: "sync",
+				sentAt: expect.any(String),
+				sources: [
+					{
+						id: "meti",
+						name: "METI <経済産業省>",
+						status: "成功",
+						scraped: 0,
+						error: null,
+						inserted: [],
+						rescheduled: [],
+					},
+				],
+			},
+		]);
+	});
+
+	test("通知すべき内容がない場合は送信しない", async () => {
+		process.env.NOTIFY_WEBHOOK_FORMAT = "slack";
+
+		await notifySyncResults([report()]);
+
+		expect(received).toEqual([]);
+	});
+});
+
+describe("notifyFailure", () => {
+	test("Slack形式で実行の失敗を送信する", async () => {
+		process.env.NOTIFY_WEBHOOK_FORMAT = "slack";
+
+		await notifyFailure("SPREADSHEET_ID is not set");
+
+		expect(received).toEqual([
+			{
+				text: "審議会スケジュールの更新\n\n:x: 実行に失敗しました: SPREADSHEET_ID is not set",
+			},
+		]);
+	});
+
+	test("JSON形式で実行の失敗を送信する", async () => {
+		process.env.NOTIFY_WEBHOOK_FORMAT = "json";
+
+		await notifyFailure("SPREADSHEET_ID is not set");
+
+		expect(received).toEqual([
+			{
+				event: "failure",
+				sentAt: expect.any(String),
+				error: "SPREADSHEET_ID is not set",
+			},
+		]);
+	});
+});
@@ -0,0 +1,250 @@
+import type {
+	MeetingChange,
+	MeetingData,
+	MeetingSource,
+} from "@/definitions/types";
+import { postJson } from "@/utils/http";
+
+const NOTIFY_FORMATS = ["slack", "json"] as const;
+type NotifyFormat = (typeof NOTIFY_FORMATS)[number];
+
+// 日程の変更として通知する項目
+const RESCHEDULE_FIELDS: Array<MeetingChange["field"]> = ["開催日", "開催時間"];
+
+/**
+ * 取得元ごとの通知内容
+ */
+export interface SourceReport {
+	source: MeetingSource;
+	status: "成功" | "失敗";
+	scraped: number; // 取得件数
+	insertedMeetings: MeetingData[]; // 新規に追加した会議
+	changes: MeetingChange[]; // 更新した会議の変更内容
+	meetings: MeetingData[]; // 今回取得した会議 (日程変更後の値の参照用)
+	error?: string; // 失敗時のエラーメッセージ
+}
+
+/**
+ * 日程が変更された会議
+ */
+interface RescheduledMeeting {
+	name: string;
+	detailUrl: string;
+	date: string; // 変更後の開催日
+	time: string; // 変更後の開催時間
+	changes: Array<{ field: string; before: string; after: string }>;
+}
+
+/**
+ * 環境変数から通知先を取得 (NOTIFY_WEBHOOK_URL が未設定の場合は undefined)
+ */
+function getWebhookConfig(): { url: string; format: NotifyFormat } | undefined {
+	const url = process.env.NOTIFY_WEBHOOK_URL;
+	if (!url) {
+		return undefined;
+	}
+
+	const format = (process.env.NOTIFY_WEBHOOK_FORMAT || "slack") as NotifyFormat;
+	if (!NOTIFY_FORMATS.includes(format)) {
+		throw new Error(`Unknown NOTIFY_WEBHOOK_FORMAT: ${format}`);
+	}
+	return { url, format };
+}
+
+/**
+ * 変更内容から日程が変更された会議を抽出 (会議ごとにまとめる)
+ */
+function collectRescheduled(report: SourceReport): RescheduledMeeting[] {
+	const meetings = new Map(
+		report.meetings.map((meeting) => [meeting.detailUrl, meeting]),
+	);
+	const rescheduled = new Map<string, RescheduledMeeting>();
+
+	for (const change of report.changes) {
+		if (!RESCHEDULE_FIELDS.includes(change.field)) {
+			continue;
+		}
+
+		let entry = rescheduled.get(change.detailUrl);
+		if (!entry) {
+			const meeting = meetings.get(change.detailUrl);
+			entry = {
+				name: change.name,
+				detailUrl: change.detailUrl,
+				date: meeting?.date ?? "",
+				time: meeting?.time ?? "",
+				changes: [],
+			};
+			rescheduled.set(change.detailUrl, entry);
+		}
+		entry.changes.push({
+			field: change.field,
+			before: change.before,
+			after: change.after,
+		});
+	}
+
+	return [...rescheduled.values()];
+}
+
+/**
+ * 通知すべき内容があるか (新規・日程変更・失敗・取得0件)
+ */
+function isNotable(report: SourceReport): boolean {
+	return (
+		report.status === "失敗" ||
+		report.scraped === 0 ||
+		report.insertedMeetings.length > 0 ||
+		collectRescheduled(report).length > 0
+	);
+}
+
+/**
+ * Slackの制御文字 (&, <, >) をエスケープ
+ */
+function escapeSlack(text: string): string {
+	return text
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;");
+}
+
+/**
+ * 関連タグを " [容量市場, 系統]" の形式で表示 (タグがない場合は空文字)
+ */
+function formatTags(meeting: MeetingData): string {
+	const tags = meeting.tags ?? [];
+	return tags.length > 0 ? ` [${escapeSlack(tags.join(", "))}]` : "";
+}
+
+/**
+ * 傍聴申込締切を " (傍聴申込締切: 2026-10-01)" の形式で表示 (締切がない場合は空文字)
+ */
+function formatDeadline(meeting: MeetingData): string {
+	return meeting.viewingDeadline
+		? ` (傍聴申込締切: ${meeting.viewingDeadline})`
+		: "";
+}
+
+/**
+ * Slack互換 (Incoming Webhook) のペイロードを作成
+ */
+export function buildSlackPayload(reports: SourceReport[]): { text: string } {
+	const sections: string[] = [];
+
+	for (const report of reports) {
+		const lines = [`*${escapeSlack(report.source.displayName)}*`];
+
+		if (report.status === "失敗") {
+			lines.push(
+				`:x: 取得に失敗しました: ${escapeSlack(report.error ?? "不明なエラー")}`,
+			);
+		} else if (report.scraped === 0) {
+			lines.push(":warning: 会議が1件も取得できませんでした");
+		}
+
+		for (const meeting of report.insertedMeetings) {
+			lines.push(
+				`:new: ${meeting.date} ${meeting.time} <${meeting.detailUrl}|${escapeSlack(meeting.name)}>${formatTags(meeting)}${formatDeadline(meeting)}`,
+			);
+		}
+
+		for (const meeting of collectRescheduled(report)) {
+			const details = meeting.changes
+				.map(
+					(change) =>
+						`${change.field}: ${change.before || "(空)"} → ${change.after || "(空)"}`,
+				)
+				.join("、");
+			lines.push(
+				`:calendar: <${meeting.detailUrl}|${escapeSlack(meeting.name)}> (${escapeSlack(details)})`,
+			);
+		}
+
+		sections.push(lines.join("\n"));
+	}
+
+	return { text: `審議会スケジュールの更新\n\n${sections.join("\n\n")}` };
+}
+
+/**
+ * 汎用JSONのペイロードを作成
+ */
+export function buildJsonPayload(reports: SourceReport[]) {
+	return {
+		event: "sync",
+		sentAt: new Date().toISOString(),
+		sources: reports.map((report) => ({
+			id: report.source.id,
+			name: report.source.displayName,
+			status: report.status,
+			scraped: report.scraped,
+			error: report.error ?? null,
+			inserted: report.insertedMeetings.map((meeting) => ({
+				name: meeting.name,
+				date: meeting.date,
+				time: meeting.time,
+				startTime: meeting.startTime,
+				endTime: meeting.endTime,
+				detailUrl: meeting.detailUrl,
+				tags: meeting.tags ?? [],
+				venue: meeting.venue,
+				format: meeting.format,
+				livestreamUrl: meeting.livestreamUrl,
+				viewingDeadline: meeting.viewingDeadline,
+			})),
+			rescheduled: collectRescheduled(report),
+		})),
+	};
+}
+
+/**
+ * 同期結果をWebhookで通知
+ * 新規・日程変更・失敗・取得0件のいずれもない場合は送信しない
+ */
+export async function notifySyncResults(
+	reports: SourceReport[],
+): Promise<void> {
+	const config = getWebhookConfig();
+	if (!config) {
+		return;
+	}
+
+	const notable = reports.filter(isNotable);
+	if (notable.length === 0) {
+		console.log("🔕 Nothing to notify");
+		return;
+	}
+
+	const payload =
+		config.format === "slack"
+			? buildSlackPayload(notable)
+			: buildJsonPayload(notable);
+
+	await postJson(config.url, payload);
+	console.log(`🔔 Sent notification (${config.format})`);
+}
+
+/**
+ * 同期処理全体の失敗をWebhookで通知
+ */
+export async function notifyFailure(message: string): Promise<void> {
+	const config = getWebhookConfig();
+	if (!config) {
+		return;
+	}
+
+	const payload =
+		config.format === "slack"
+			? {
+					text: `審議会スケジュールの更新\n\n:x: 実行に失敗しました: ${escapeSlack(message)}`,
+				}
+			: {
+					event: "failure",
+					sentAt: new Date().toISOString(),
+					error: message,
+				};
+
+	await postJson(config.url, payload);
+	console.log(`🔔 Sent failure notification (${config.format})`);
+}
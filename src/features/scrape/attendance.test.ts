@@ -0,0 +1,92 @@
+import { describe, expect, test } from "bun:test";
+import * as cheerio from "cheerio";
+import {
+	detectFormat,
+	extractAttendance,
+	parseViewingDeadline,
+} from "./attendance";
+
+describe("detectFormat", () => {
+	test.each([
+		["経済産業省 本館17階 第1特別会議室", "対面"],
+		["オンライン開催", "オンライン"],
+		["Web会議による開催", "オンライン"],
+		["ＹｏｕＴｕｂｅ ライブ配信", "オンライン"],
+		["経済産業省 本館17階 及び オンライン（併用）", "ハイブリッド"],
+		["ハイブリッド開催", "ハイブリッド"],
+		["", ""],
+	] as const)("%s -> %s", (text, expected) => {
+		expect(detectFormat(text)).toBe(expected);
+	});
+});
+
+describe("parseViewingDeadline", () => {
+	test.each([
+		[
+			"傍聴を希望される方は10月23日（金）12時までにお申し込みください。",
+			"2026-10-27",
+			"2026-10-23",
+		],
+		// 締切の直前の日付を優先する
+		[
+			"10月27日に開催します。傍聴の申込は10月20日まで受け付けます。",
+			"2026-10-27",
+			"2026-10-20",
+		],
+		// 年の記載がなく開催日より後になる場合は前年とする
+		["12月25日締切", "2027-01-10", "2026-12-25"],
+		["令和８年１０月２３日（金）締切", "2026-10-27", "2026-10-23"],
+		["令和元年5月10日まで", "2019-05-20", "2019-05-10"],
+		["2026年10月23日まで", "", "2026-10-23"],
+		["傍聴はできません。", "2026-10-27", ""],
+		["10月23日", "2026-10-27", ""],
+	])("%s (開催日: %s) -> %s", (text, meetingDate, expected) => {
+		expect(parseViewingDeadline(text, meetingDate)).toBe(expected);
+	});
+});
+
+describe("extractAttendance", () => {
+	test("場所・開催形式・配信URL・傍聴申込締切を抽出する", () => {
+		const $ = cheerio.load(`
+			<h2>日時</h2>
+			<p>令和8年10月27日（火）10時00分～12時00分</p>
+			<h2>場所</h2>
+			<p>経済産業省 本館17階
+				第1特別会議室</p>
+			<p>（YouTubeでライブ配信）</p>
+			<h2>傍聴について</h2>
+			<p>10月23日（金）12時までにお申し込みください。</p>
+			<p><a href="/shingikai/index.html">審議会一覧</a></p>
+			<p><a href="https://www.youtube.com/watch?v=kihon080">配信はこちら</a></p>
+		`);
+
+		expect(
+			extractAttendance(
+				$,
+				"https://www.meti.go.jp/shingikai/enecho/kihon_seisaku/080.html",
+				"2026-10-27",
+			),
+		).toEqual({
+			venue: "経済産業省 本館17階 第1特別会議室（YouTubeでライブ配信）",
+			format: "ハイブリッド",
+			livestreamUrl: "https://www.youtube.com/watch?v=kihon080",
+			viewingDeadline: "2026-10-23",
+		});
+	});
+
+	test("開催形式の見出しも判定に使い、記載がない項目は空文字とする", () => {
+		const $ = cheerio.load(`
+			<h3>開催形式</h3>
+			<p>オンライン会議</p>
+		`);
+
+		expect(
+			extractAttendance($, "https://www.occto.or.jp/iinkai/", "2026-10-27"),
+		).toEqual({
+			venue: "",
+			format: "オンライン",
+			livestreamUrl: "",
+			viewingDeadline: "",
+		});
+	});
+});
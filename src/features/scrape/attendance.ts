@@ -0,0 +1,147 @@
+import type * as cheerio from "cheerio";
+import type { AttendanceInfo, MeetingFormat } from "@/definitions/types";
+
+const HEADING_SELECTOR = "h2, h3, h4, h5";
+
+const ONLINE_PATTERN =
+	/オンライン|web会議|ウェブ会議|youtube|ライブ配信|インターネット中継|teams|webex|zoom/i;
+// 開催形式の判定で無視する語句 (例: "オンライン会議による開催")
+const FORMAT_FILLER_PATTERN =
+	/及び|および|併用|による|にて|開催|形式|方式|会議|の|と|[\s()・、,/]/g;
+const LIVESTREAM_HOST_PATTERN = /(^|\.)(youtube\.com|youtu\.be)$/;
+const DEADLINE_PATTERN =
+	/(?:(令和)(元|\d{1,2})年|(\d{4})年)?(\d{1,2})月(\d{1,2})日/g;
+
+/**
+ * 見出しのテキストが pattern に一致するセクションの本文を取得
+ * 本文は次の見出しまでの要素のテキスト
+ */
+function getSectionText($: cheerio.CheerioAPI, pattern: RegExp): string {
+	const texts: string[] = [];
+	$(HEADING_SELECTOR).each((_, heading) => {
+		const $heading = $(heading);
+		if (pattern.test($heading.text().trim())) {
+			texts.push($heading.nextUntil(HEADING_SELECTOR).text().trim());
+		}
+	});
+	return texts.join("\n").trim();
+}
+
+/**
+ * 場所・開催形式の表記から開催形式を判定
+ * 会場の記載とオンライン開催の記載が両方ある場合はハイブリッドとする
+ */
+export function detectFormat(text: string): MeetingFormat {
+	const normalized = text.normalize("NFKC");
+	if (normalized.includes("ハイブリッド")) {
+		return "ハイブリッド";
+	}
+
+	const online = ONLINE_PATTERN.test(normalized);
+	// オンラインの表記と接続語を除いても文字が残る場合は会場の記載があるとみなす
+	const physical =
+		normalized
+			.replace(new RegExp(ONLINE_PATTERN.source, "gi"), "")
+			.replace(FORMAT_FILLER_PATTERN, "").length > 0;
+
+	if (online && physical) {
+		return "ハイブリッド";
+	}
+	if (online) {
+		return "オンライン";
+	}
+	if (physical) {
+		return "対面";
+	}
+	return "";
+}
+
+/**
+ * ページ内のライブ配信 (YouTube) のリンクを取得
+ */
+function findLivestreamUrl($: cheerio.CheerioAPI, pageUrl: string): string {
+	for (const link of $("a[href]").toArray()) {
+		const href = $(link).attr("href")?.trim();
+		if (!href) {
+			continue;
+		}
+		try {
+			const url = new URL(href, pageUrl);
+			if (LIVESTREAM_HOST_PATTERN.test(url.hostname)) {
+				return url.href;
+			}
+		} catch {}
+	}
+	return "";
+}
+
+/**
+ * 傍聴の案内から申込締切日を YYYY-MM-DD 形式で抽出
+ * 年の記載がない場合は開催日の年とし、開催日より後になる場合は前年とする
+ * 締切が見つからない場合は空文字を返す
+ */
+export function parseViewingDeadline(
+	text: string,
+	meetingDate: string,
+): string {
+	const normalized = text.normalize("NFKC");
+	if (!/締切|締め切|まで/.test(normalized)) {
+		return "";
+	}
+
+	const meetingYear = Number.parseInt(meetingDate.substring(0, 4), 10);
+	// "締切" "まで" の直前の日付を優先し、なければ最初の日付を使う
+	const matches = [...normalized.matchAll(DEADLINE_PATTERN)];
+	const match =
+		matches.find((candidate) =>
+			/^[^。\n]{0,20}(締切|締め切|まで)/.test(
+				normalized.substring((candidate.index ?? 0) + candidate[0].length),
+			),
+		) ?? matches[0];
+	if (!match) {
+		return "";
+	}
+
+	const [, reiwa, reiwaYear, westernYear, monthStr, dayStr] = match;
+	const month = (monthStr ?? "").padStart(2, "0");
+	const day = (dayStr ?? "").padStart(2, "0");
+
+	let year: number;
+	if (reiwa) {
+		year =
+			2018 + (reiwaYear === "元" ? 1 : Number.parseInt(reiwaYear ?? "", 10));
+	} else if (westernYear) {
+		year = Number.parseInt(westernYear, 10);
+	} else if (!Number.isNaN(meetingYear)) {
+		year = meetingYear;
+		if (`${year}-${month}-${day}` > meetingDate) {
+			year--;
+		}
+	} else {
+		return "";
+	}
+
+	return `${year}-${month}-${day}`;
+}
+
+/**
+ * 詳細ページから場所、開催形式、配信URL、傍聴申込締切を抽出
+ */
+export function extractAttendance(
+	$: cheerio.CheerioAPI,
+	pageUrl: string,
+	meetingDate: string,
+): AttendanceInfo {
+	const venue = getSectionText($, /場所|会場/)
+		.replace(/\s+/g, " ")
+		.trim();
+	const formatText = getSectionText($, /場所|会場|開催形式|開催方法/);
+	const viewingText = getSectionText($, /傍聴/);
+
+	return {
+		venue,
+		format: detectFormat(formatText),
+		livestreamUrl: findLivestreamUrl($, pageUrl),
+		viewingDeadline: parseViewingDeadline(viewingText, meetingDate),
+	};
+}
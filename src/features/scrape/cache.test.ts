@@ -0,0 +1,62 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { type DetailCacheEntry, shouldRefetch } from "./cache";
+
+// JSTでは 2026-10-19 09:00
+const NOW = new Date("2026-10-19T00:00:00Z");
+
+function entry(meetingDate: string, fetchedAt: string): DetailCacheEntry {
+	return {
+		url: "https://www.meti.go.jp/shingikai/enecho/kihon_seisaku/080.html",
+		fetchedAt,
+		contentHash: "",
+		meetingDate,
+		body: "",
+	};
+}
+
+afterEach(() => {
+	delete process.env.DOCUMENT_RECHECK_DAYS;
+});
+
+describe("shouldRefetch", () => {
+	test("開催日が不明な場合は再取得する", () => {
+		expect(shouldRefetch(entry("", NOW.toISOString()), NOW)).toBe(true);
+	});
+
+	test.each([
+		["2026-10-19"],
+		["2026-11-02"],
+	])("開催日が14日以内 (%s) の場合は取得直後でも再取得する", (meetingDate) => {
+		expect(shouldRefetch(entry(meetingDate, NOW.toISOString()), NOW)).toBe(
+			true,
+		);
+	});
+
+	test.each([
+		["2026-10-13T00:00:01Z", false],
+		["2026-10-12T00:00:00Z", true],
+		["invalid", true],
+	])("それより先の会議は前回の取得 (%s) から7日以上経っていれば再取得する", (fetchedAt, expected) => {
+		expect(shouldRefetch(entry("2026-11-03", fetchedAt), NOW)).toBe(expected);
+	});
+
+	test.each([
+		// JSTの今日 (2026-10-19 00:30) に取得済み
+		["2026-10-18T15:30:00Z", false],
+		// JSTの前日 (2026-10-18 23:59) に取得
+		["2026-10-18T14:59:00Z", true],
+	])("開催済みの会議は資料の確認期間中はJSTの1日1回再取得する: %s", (fetchedAt, expected) => {
+		expect(shouldRefetch(entry("2026-10-18", fetchedAt), NOW)).toBe(expected);
+	});
+
+	test("資料の確認期間 (DOCUMENT_RECHECK_DAYS) を過ぎた会議は再取得しない", () => {
+		const fetchedAt = "2026-09-01T00:00:00Z";
+
+		expect(shouldRefetch(entry("2026-09-19", fetchedAt), NOW)).toBe(true);
+		expect(shouldRefetch(entry("2026-09-18", fetchedAt), NOW)).toBe(false);
+
+		process.env.DOCUMENT_RECHECK_DAYS = "0";
+
+		expect(shouldRefetch(entry("2026-10-18", fetchedAt), NOW)).toBe(false);
+	});
+});
@@ -0,0 +1,163 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { getDocumentRecheckDays } from "@/features/scrape/documents";
+import { fetchWithUserAgent, getHttpMode } from "@/utils/http";
+import { getJstDateString } from "@/utils/time";
+
+const DEFAULT_CACHE_DIR = ".cache/details";
+// 開催日がこの日数以内の会議は毎回再取得する
+const ALWAYS_REFETCH_DAYS = 14;
+// それより先の会議はこの日数ごとに再取得する
+const PERIODIC_REFETCH_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * ディスクに保存する詳細ページのキャッシュ
+ */
+export interface DetailCacheEntry {
+	url: string;
+	fetchedAt: string; // 最終取得日時 (ISO 8601形式)
+	contentHash: string; // 本文のSHA-256
+	meetingDate: string; // 開催日 (YYYY-MM-DD形式、不明な場合は空文字)
+	body: string;
+}
+
+function getCacheDir() {
+	return process.env.DETAIL_CACHE_DIR || DEFAULT_CACHE_DIR;
+}
+
+function getCachePath(url: string): string {
+	const hash = createHash("sha1").update(url).digest("hex");
+	return join(getCacheDir(), `${hash}.json`);
+}
+
+function hashContent(body: string): string {
+	return createHash("sha256").update(body).digest("hex");
+}
+
+async function readEntry(url: string): Promise<DetailCacheEntry | undefined> {
+	try {
+		const text = await readFile(getCachePath(url), "utf-8");
+		return JSON.parse(text) as DetailCacheEntry;
+	} catch {
+		return undefined;
+	}
+}
+
+async function writeEntry(entry: DetailCacheEntry): Promise<void> {
+	try {
+		await mkdir(getCacheDir(), { recursive: true });
+		await writeFile(getCachePath(entry.url), JSON.stringify(entry));
+	} catch (error) {
+		console.warn(`Failed to write detail cache for ${entry.url}:`, error);
+	}
+}
+
+/**
+ * "YYYY-MM-DD" に日数を加算
+ */
+function addDays(date: string, days: number): string {
+	const result = new Date(`${date}T00:00:00Z`);
+	result.setUTCDate(result.getUTCDate() + days);
+	return result.toISOString().substring(0, 10);
+}
+
+/**
+ * キャッシュを使わずに再取得すべきか判定
+ * - 開催日が不明: 再取得
+ * - 開催日を過ぎた: 資料の確認期間中 (DOCUMENT_RECHECK_DAYS) は1日1回再取得、それ以降は再取得しない
+ * - 開催日が14日以内: 毎回再取得
+ * - それより先: 前回の取得から7日以上経っていれば再取得
+ */
+export function shouldRefetch(entry: DetailCacheEntry, now: Date): boolean {
+	if (!DATE_PATTERN.test(entry.meetingDate)) {
+		return true;
+	}
+
+	const today = getJstDateString(now);
+	if (entry.meetingDate < today) {
+		if (entry.meetingDate < addDays(today, -getDocumentRecheckDays())) {
+			return false;
+		}
+		// 毎日同じ時刻に実行しても取りこぼさないよう、日付単位で判定する
+		const fetchedAt = Date.parse(entry.fetchedAt);
+		return (
+			Number.isNaN(fetchedAt) || getJstDateString(new Date(fetchedAt)) < today
+		);
+	}
+	if (entry.meetingDate <= addDays(today, ALWAYS_REFETCH_DAYS)) {
+		return true;
+	}
+
+	const fetchedAt = Date.parse(entry.fetchedAt);
+	return (
+		Number.isNaN(fetchedAt) ||
+		now.getTime() - fetchedAt >= PERIODIC_REFETCH_DAYS * DAY_MS
+	);
+}
+
+/**
+ * 詳細ページを取得 (キャッシュが有効な場合はキャッシュを返す)
+ * 開催日は meetingDate で渡すか、未定の場合は extractDate で取得した本文から判定する
+ * refresh が true の場合はキャッシュを使わずに必ず再取得する
+ * HTTPの記録・再生モードではフィクスチャと結果が一致するようキャッシュを使わない
+ */
+export async function fetchDetailPage(
+	url: string,
+	options: {
+		meetingDate?: string;
+		extractDate?: (body: string) => string;
+		refresh?: boolean;
+	} = {},
+): Promise<string> {
+	if (getHttpMode() !== "live") {
+		return fetchWithUserAgent(url);
+	}
+
+	const now = new Date();
+	const cached = await readEntry(url);
+
+	// 一覧ページ側で開催日が変わった場合に備え、渡された開催日を優先する
+	if (cached && options.meetingDate) {
+		cached.meetingDate = options.meetingDate;
+	}
+
+	if (cached && !options.refresh && !shouldRefetch(cached, now)) {
+		console.error(`Using cached detail page: ${url}`);
+		return cached.body;
+	}
+
+	let body: string;
+	try {
+		body = await fetchWithUserAgent(url);
+	} catch (error) {
+		// 取得に失敗した場合はキャッシュがあればそれを使う
+		if (cached) {
+			console.warn(`Failed to refetch ${url}, using cached detail page`);
+			return cached.body;
+		}
+		throw error;
+	}
+
+	const contentHash = hashContent(body);
+	if (cached && cached.contentHash !== contentHash) {
+		console.error(`Detail page changed since last fetch: ${url}`);
+	}
+
+	await writeEntry({
+		url,
+		fetchedAt: now.toISOString(),
+		contentHash,
+		meetingDate:
+			options.meetingDate ??
+			options.extractDate?.(body) ??
+			cached?.meetingDate ??
+			"",
+		body,
+	});
+
+	return body;
+}
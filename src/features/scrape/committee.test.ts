@@ -0,0 +1,79 @@
+import { describe, expect, test } from "bun:test";
+import { parseCommitteeName } from "./committee";
+
+describe("parseCommitteeName", () => {
+	test("親審議会・分科会等の階層・回次に分ける (全角の回次も解析する)", () => {
+		expect(
+			parseCommitteeName(
+				"総合資源エネルギー調査会 電力・ガス事業分科会 電力・ガス基本政策小委員会（第８０回）",
+			),
+		).toEqual({
+			council: "総合資源エネルギー調査会",
+			subcommittees: "電力・ガス事業分科会 > 電力・ガス基本政策小委員会",
+			workingGroup: "",
+			session: "80",
+			joint: false,
+		});
+	});
+
+	test("中止・延期の告知と括弧のない回次を除く", () => {
+		expect(
+			parseCommitteeName(
+				"【延期】電力・ガス取引監視等委員会 制度設計・監視専門会合 第121回",
+			),
+		).toEqual({
+			council: "電力・ガス取引監視等委員会",
+			subcommittees: "制度設計・監視専門会合",
+			workingGroup: "",
+			session: "121",
+			joint: false,
+		});
+	});
+
+	test("合同会議は会議体ごとに区切る", () => {
+		expect(
+			parseCommitteeName(
+				"総合資源エネルギー調査会 省エネルギー・新エネルギー分科会 新エネルギー小委員会／電力・ガス事業分科会 再生可能エネルギー大量導入・次世代電力ネットワーク小委員会 合同会議（第50回）",
+			),
+		).toEqual({
+			council: "総合資源エネルギー調査会",
+			subcommittees:
+				"省エネルギー・新エネルギー分科会 > 新エネルギー小委員会 / 電力・ガス事業分科会 > 再生可能エネルギー大量導入・次世代電力ネットワーク小委員会",
+			workingGroup: "",
+			session: "50",
+			joint: true,
+		});
+	});
+
+	test.each([
+		[
+			"省エネルギー小委員会 工場等判断基準ワーキンググループ（第3回）",
+			{
+				council: "",
+				subcommittees: "省エネルギー小委員会",
+				workingGroup: "工場等判断基準ワーキンググループ",
+				session: "3",
+			},
+		],
+		[
+			"容量市場の在り方等に関する検討会（第40回）（書面審議）",
+			{
+				council: "",
+				subcommittees: "",
+				workingGroup: "容量市場の在り方等に関する検討会",
+				session: "40",
+			},
+		],
+		[
+			"調整力及び需給バランス評価等に関する委員会",
+			{
+				council: "調整力及び需給バランス評価等に関する委員会",
+				subcommittees: "",
+				workingGroup: "",
+				session: "",
+			},
+		],
+	])("小委員会は親審議会とせず、末尾の補足は名前に含めない: %s", (name, expected) => {
+		expect(parseCommitteeName(name)).toEqual({ ...expected, joint: false });
+	});
+});
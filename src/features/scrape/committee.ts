@@ -0,0 +1,94 @@
+import type { CommitteeInfo } from "@/definitions/types";
+
+// 回次: "(第80回)" / "第80回" (全角はNFKCで半角化済み)
+const SESSION_PATTERN = /\(?\s*第\s*(\d+)\s*回\s*\)?/;
+// 合同会議の表記
+const JOINT_PATTERN = /合同(?:会議|開催)?/;
+// 合同会議で会議体を区切る表記 ("／" はNFKCで半角化済み)
+// "及び" や "、" は会議体の名前自体に含まれることが多いため区切りとしない
+const PART_SEPARATOR = /\s*\/\s*/;
+// 親審議会 (小委員会・専門委員会は除く)
+const COUNCIL_PATTERN = /(?:審議会|調査会|委員会)$/;
+const SUBCOMMITTEE_ONLY_PATTERN = /(?:小委員会|専門委員会)$/;
+// 最下層のワーキンググループ・研究会など
+const WORKING_GROUP_PATTERN =
+	/(?:ワーキング・?グループ|WG|タスクフォース|研究会|検討会|作業会|勉強会)$/;
+
+const JOINT_SEPARATOR = " / ";
+const CHAIN_SEPARATOR = " > ";
+
+/**
+ * 会議体1つ分の名前を親審議会・分科会等・ワーキンググループに分ける
+ */
+function parsePart(part: string): {
+	council: string;
+	subcommittees: string[];
+	workingGroup: string;
+} {
+	const tokens = part.split(/\s+/).filter((token) => token);
+
+	let workingGroup = "";
+	const last = tokens[tokens.length - 1];
+	if (last && WORKING_GROUP_PATTERN.test(last)) {
+		workingGroup = last;
+		tokens.pop();
+	}
+
+	let council = "";
+	const first = tokens[0];
+	if (
+		first &&
+		COUNCIL_PATTERN.test(first) &&
+		!SUBCOMMITTEE_ONLY_PATTERN.test(first)
+	) {
+		council = first;
+		tokens.shift();
+	}
+
+	return { council, subcommittees: tokens, workingGroup };
+}
+
+function unique(values: string[]): string[] {
+	return [...new Set(values.filter((value) => value))];
+}
+
+/**
+ * 会議名から親審議会、分科会・小委員会の階層、ワーキンググループ、回次を解析
+ * 例: "総合資源エネルギー調査会 電力・ガス事業分科会 電力・ガス基本政策小委員会（第80回）"
+ *  -> 親審議会 "総合資源エネルギー調査会"、分科会等 "電力・ガス事業分科会 > 電力・ガス基本政策小委員会"、回次 "80"
+ * 合同会議は会議体ごとに " / " で区切る
+ */
+export function parseCommitteeName(name: string): CommitteeInfo {
+	// 全角の数字・括弧・空白を半角に揃え、中止・延期などの告知を除く
+	let text = name
+		.normalize("NFKC")
+		.replace(/【[^】]*】/g, " ")
+		.trim();
+
+	const session = text.match(SESSION_PATTERN)?.[1] ?? "";
+	text = text.replace(SESSION_PATTERN, " ");
+
+	const joint = JOINT_PATTERN.test(text);
+	text = text.replace(JOINT_PATTERN, " ");
+
+	// 末尾の "(書面審議)" などの補足は会議体の名前に含めない
+	text = text.replace(/(?:\s*\([^)]*\))+\s*$/, "").trim();
+
+	const parts = text
+		.split(PART_SEPARATOR)
+		.filter((part) => part.trim())
+		.map(parsePart);
+
+	return {
+		council: unique(parts.map((part) => part.council)).join(JOINT_SEPARATOR),
+		subcommittees: parts
+			.map((part) => part.subcommittees.join(CHAIN_SEPARATOR))
+			.filter((chain) => chain)
+			.join(JOINT_SEPARATOR),
+		workingGroup: unique(parts.map((part) => part.workingGroup)).join(
+			JOINT_SEPARATOR,
+		),
+		session,
+		joint,
+	};
+}
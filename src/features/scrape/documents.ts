@@ -0,0 +1,95 @@
+import type * as cheerio from "cheerio";
+import type { DocumentKind, MeetingDocument } from "@/definitions/types";
+
+const DEFAULT_RECHECK_DAYS = 30;
+
+// 資料のリンクを探す見出し
+const HEADING_SELECTOR = "h2, h3, h4, h5";
+const DOCUMENT_HEADING_PATTERN = /資料|議事要旨|議事録/;
+
+/**
+ * 開催後も資料の掲載を確認し続ける日数 (環境変数 DOCUMENT_RECHECK_DAYS)
+ */
+export function getDocumentRecheckDays(): number {
+	const value = Number.parseInt(process.env.DOCUMENT_RECHECK_DAYS ?? "", 10);
+	return Number.isNaN(value) ? DEFAULT_RECHECK_DAYS : value;
+}
+
+/**
+ * リンクのテキストと見出しから資料の種別を判定
+ * リンクのテキストを優先する (例: "配布資料" 見出しの下の "議事要旨")
+ */
+function detectKind(title: string, heading: string): DocumentKind {
+	for (const text of [title, heading]) {
+		if (text.includes("議事録")) {
+			return "議事録";
+		}
+		if (text.includes("議事要旨") || text.includes("議事概要")) {
+			return "議事要旨";
+		}
+	}
+	return "配布資料";
+}
+
+/**
+ * URLの拡張子からファイル形式を判定 (拡張子がない場合は HTML)
+ */
+function detectFileType(url: URL): string {
+	const match = url.pathname.match(/\.([a-z0-9]+)$/i);
+	const extension = match?.[1]?.toUpperCase();
+	if (!extension || extension === "HTML" || extension === "HTM") {
+		return "HTML";
+	}
+	return extension;
+}
+
+/**
+ * 詳細ページの "配布資料" "議事要旨" "議事録" 見出しの下にあるリンクを抽出
+ * 相対URLは詳細ページのURLを基準に絶対URLに変換する
+ */
+export function extractDocuments(
+	$: cheerio.CheerioAPI,
+	pageUrl: string,
+): MeetingDocument[] {
+	const documents = new Map<string, MeetingDocument>();
+
+	$(HEADING_SELECTOR).each((_, heading) => {
+		const $heading = $(heading);
+		const headingText = $heading.text().trim();
+		if (!DOCUMENT_HEADING_PATTERN.test(headingText)) {
+			return;
+		}
+
+		// 次の見出しまでの要素に含まれるリンク
+		$heading
+			.nextUntil(HEADING_SELECTOR)
+			.find("a[href]")
+			.addBack("a[href]")
+			.each((_, link) => {
+				const href = $(link).attr("href")?.trim();
+				if (!href || href.startsWith("#") || href.startsWith("mailto:")) {
+					return;
+				}
+
+				let url: URL;
+				try {
+					url = new URL(href, pageUrl);
+				} catch {
+					return;
+				}
+
+				const title = $(link).text().replace(/\s+/g, " ").trim();
+				if (documents.has(url.href)) {
+					return;
+				}
+				documents.set(url.href, {
+					kind: detectKind(title, headingText),
+					title: title || url.href,
+					url: url.href,
+					fileType: detectFileType(url),
+				});
+			});
+	});
+
+	return [...documents.values()];
+}
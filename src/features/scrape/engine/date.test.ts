@@ -0,0 +1,25 @@
+import { describe, expect, test } from "bun:test";
+import { parseDate } from "./date";
+
+describe("parseDate", () => {
+	test.each([
+		["2026年1月27日（火）", "2026-01-27"],
+		["令和8年10月9日", "2026-10-09"],
+		["令和元年5月1日", "2019-05-01"],
+		["令和 8 年 1 月 5 日", "2026-01-05"],
+		["２０２６年１２月３日", "2026-12-03"],
+		["調整中", ""],
+	])("%s -> %s", (text, expected) => {
+		expect(parseDate(text)).toBe(expected);
+	});
+
+	test("正規表現を指定した場合は名前付きグループから変換する", () => {
+		const pattern = /(?<year>\d{4})\.(?<month>\d{1,2})\.(?<day>\d{1,2})/;
+		expect(parseDate("掲載日: 2026.1.５", pattern)).toBe("2026-01-05");
+		expect(parseDate("2026年1月5日", pattern)).toBe("");
+	});
+
+	test("名前付きグループが足りない場合は空文字を返す", () => {
+		expect(parseDate("2026/01", /(?<year>\d{4})\/(?<month>\d{2})/)).toBe("");
+	});
+});
@@ -0,0 +1,19 @@
+import { parseJapaneseDate } from "@/utils/time";
+
+/**
+ * 日付のテキストを YYYY-MM-DD 形式に変換
+ * pattern を指定した場合は名前付きグループ year / month / day を使い、
+ * 省略した場合は西暦・令和の年月日の表記から変換する
+ * 見つからない場合は空文字を返す
+ */
+export function parseDate(text: string, pattern?: RegExp): string {
+	if (!pattern) {
+		return parseJapaneseDate(text);
+	}
+
+	const groups = text.normalize("NFKC").match(pattern)?.groups;
+	if (!groups?.year || !groups.month || !groups.day) {
+		return "";
+	}
+	return `${groups.year}-${groups.month.padStart(2, "0")}-${groups.day.padStart(2, "0")}`;
+}
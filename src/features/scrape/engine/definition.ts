@@ -0,0 +1,224 @@
+import { readdirSync, readFileSync } from "node:fs";
+import { basename, extname, join } from "node:path";
+
+const DEFAULT_SOURCES_DIR = "sources";
+const DEFINITION_EXTENSIONS = [".json", ".yaml", ".yml"];
+
+/**
+ * 一覧から取得する日付の意味
+ * - meeting: 開催日 (そのまま会議の開催日とする)
+ * - published: 掲載日 (期間の絞り込みのみに使い、開催日は詳細ページから取得する)
+ */
+export type ListDateKind = "meeting" | "published";
+
+/**
+ * 一覧の共通設定
+ */
+interface ListDefinitionBase {
+	url: string; // 一覧のURL
+	archiveUrl?: string; // 過去分の取り込み用の月別一覧のURL ({year} {month} を置換)
+	baseUrl?: string; // 相対URLの前に付ける基準 (省略時は一覧のURLのディレクトリ)
+	dateKind?: ListDateKind; // 一覧の日付の意味 (既定: meeting)
+	leadMonths?: number; // 掲載日で絞り込む場合に、期間の開始月の何か月前の掲載から含めるか (既定: 0)
+	filterByMeetingDate?: boolean; // 詳細ページの開催日でも期間外の会議を除外するか (既定: false)
+	filterByDefault?: boolean; // 期間を指定しない同期でも既定の期間で絞り込むか (既定: true。false の場合は環境変数で期間を設定したときのみ)
+}
+
+/**
+ * HTMLの一覧 (CSSセレクターで会議を探す)
+ */
+export interface HtmlListDefinition extends ListDefinitionBase {
+	type: "html";
+	itemSelector: string; // 会議1件分の要素 (例: "table.tbl-si tr")
+	dateSelector?: string; // 項目内の日付の要素 (省略時は項目全体のテキスト)
+	linkSelector?: string; // 項目内の会議名と詳細URLのリンク (省略時は最初の a[href])
+}
+
+/**
+ * JSONの一覧 (配列の各要素を会議とする)
+ */
+export interface JsonListDefinition extends ListDefinitionBase {
+	type: "json";
+	itemsPath?: string; // 配列の位置 (ドット区切り。省略時はルート)
+	fields: {
+		name: string; // 会議名の位置
+		url: string; // 詳細URLの位置
+		date?: string; // 日付の位置
+	};
+	filters?: JsonFilter[]; // すべてに一致した要素のみ対象とする
+}
+
+/**
+ * JSONの要素の絞り込み条件
+ * - equals: 値が一致する
+ * - pattern: 値が正規表現に一致する
+ * - some: 値が配列で、いずれかの要素の項目がすべて一致する (例: カテゴリーの一覧)
+ */
+export interface JsonFilter {
+	path: string;
+	equals?: string;
+	pattern?: string;
+	some?: Record<string, string>;
+}
+
+/**
+ * 詳細ページの設定
+ */
+export interface DetailDefinition {
+	headingSelector: string; // 日時・議題などの見出しの要素 (例: "h3")。th / dt の場合は対応する td / dd を欄とみなす
+	dateTimeHeadings: string[]; // 日時欄の見出しに含まれる語 (例: ["日時"])
+	agendaHeadings: string[]; // 議題欄の見出しに含まれる語 (例: ["議題"])
+	nameSelector?: string; // 会議名を詳細ページから取得する場合の要素 (例: "h1")
+	skipWithoutDate?: boolean; // 開催日が取得できない会議を登録しないか (既定: false。false の場合、掲載日の一覧では一覧の日付で代用する)
+}
+
+/**
+ * 取得元の定義 (sources/ 以下のJSON・YAMLファイル1つ分)
+ */
+export interface SourceDefinition {
+	id: string; // 識別子 (例: "meti")
+	displayName: string; // 表示名 (ログ出力用)
+	sheetName: string; // 書き込み先シート名 (実行履歴などのシート名にも使う)
+	calendarColorId: string; // Googleカレンダーのイベントの色ID ("1"〜"11")
+	list: HtmlListDefinition | JsonListDefinition;
+	detail: DetailDefinition;
+	datePattern?: string; // 日付の正規表現 (名前付きグループ year / month / day。省略時は西暦・令和の年月日)
+}
+
+function getSourcesDir() {
+	return process.env.SOURCES_DIR || DEFAULT_SOURCES_DIR;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function requireString(
+	object: Record<string, unknown>,
+	key: string,
+	prefix: string,
+): void {
+	if (typeof object[key] !== "string" || !object[key]) {
+		throw new Error(`${prefix}${key} is required`);
+	}
+}
+
+/**
+ * 取得元の定義の必須項目と値を検証
+ */
+export function validateDefinition(value: unknown): SourceDefinition {
+	if (!isRecord(value)) {
+		throw new Error("definition must be an object");
+	}
+	for (const key of ["id", "displayName", "sheetName", "calendarColorId"]) {
+		requireString(value, key, "");
+	}
+
+	const { list, detail } = value;
+	if (!isRecord(list)) {
+		throw new Error("list is required");
+	}
+	requireString(list, "url", "list.");
+	if (list.type === "html") {
+		requireString(list, "itemSelector", "list.");
+	} else if (list.type === "json") {
+		if (!isRecord(list.fields)) {
+			throw new Error("list.fields is required");
+		}
+		requireString(list.fields, "name", "list.fields.");
+		requireString(list.fields, "url", "list.fields.");
+	} else {
+		throw new Error(`Unknown list.type: ${String(list.type)}`);
+	}
+	if (
+		list.dateKind !== undefined &&
+		list.dateKind !== "meeting" &&
+		list.dateKind !== "published"
+	) {
+		throw new Error(`Unknown list.dateKind: ${String(list.dateKind)}`);
+	}
+
+	if (!isRecord(detail)) {
+		throw new Error("detail is required");
+	}
+	requireString(detail, "headingSelector", "detail.");
+	for (const key of ["dateTimeHeadings", "agendaHeadings"]) {
+		if (!Array.isArray(detail[key]) || detail[key].length === 0) {
+			throw new Error(`detail.${key} is required`);
+		}
+	}
+
+	if (value.datePattern !== undefined) {
+		// 不正な正規表現は読み込み時にエラーにする
+		new RegExp(String(value.datePattern));
+	}
+
+	return value as unknown as SourceDefinition;
+}
+
+/**
+ * 定義ファイル1つ分の読み込み結果
+ * 不正な定義は、その取得元のみを失敗として扱えるよう識別子・シート名とエラーを返す
+ */
+export type LoadedDefinition =
+	| { definition: SourceDefinition }
+	| { id: string; sheetName: string; error: string };
+
+/**
+ * 不正な定義から読み取れる範囲で識別子・シート名を取得
+ * 読み取れない場合・他の定義と識別子が重複する場合はファイル名 (拡張子を除く) を使う
+ */
+function readIdentity(
+	raw: unknown,
+	file: string,
+	usedIds: Set<string>,
+): { id: string; sheetName: string } {
+	const record = isRecord(raw) ? raw : {};
+	if (typeof record.id !== "string" || !record.id || usedIds.has(record.id)) {
+		const id = basename(file, extname(file));
+		return { id, sheetName: id };
+	}
+	const id = record.id;
+	const sheetName =
+		typeof record.sheetName === "string" && record.sheetName
+			? record.sheetName
+			: id;
+	return { id, sheetName };
+}
+
+/**
+ * 取得元の定義ファイルを読み込む (SOURCES_DIR、未設定の場合は sources/)
+ * ファイル名の順に並べ、ファイルごとに検証する (不正な定義・IDの重複はそのファイルのみエラーとする)
+ */
+export function loadDefinitions(
+	dir: string = getSourcesDir(),
+): LoadedDefinition[] {
+	const files = readdirSync(dir)
+		.filter((file) => DEFINITION_EXTENSIONS.includes(extname(file)))
+		.sort();
+
+	const loaded: LoadedDefinition[] = [];
+	const ids = new Set<string>();
+	for (const file of files) {
+		const path = join(dir, file);
+		let raw: unknown;
+		try {
+			const text = readFileSync(path, "utf-8");
+			raw = extname(file) === ".json" ? JSON.parse(text) : Bun.YAML.parse(text);
+			const definition = validateDefinition(raw);
+			if (ids.has(definition.id)) {
+				throw new Error(`duplicate id: ${definition.id}`);
+			}
+			ids.add(definition.id);
+			loaded.push({ definition });
+		} catch (error) {
+			const identity = readIdentity(raw, file, ids);
+			ids.add(identity.id);
+			loaded.push({
+				...identity,
+				error: `Invalid source definition ${path}: ${error instanceof Error ? error.message : error}`,
+			});
+		}
+	}
+	return loaded;
+}
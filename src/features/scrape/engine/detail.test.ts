@@ -0,0 +1,177 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { join } from "node:path";
+import { fetchResource } from "@/utils/http";
+import type { DetailDefinition } from "./definition";
+import { extractDetailDate, parseDetailPage } from "./detail";
+
+const ROOT_DIR = join(import.meta.dir, "../../../..");
+
+const METI_DETAIL_URL =
+	"https://www.meti.go.jp/shingikai/enecho/kihon_seisaku/080.html";
+const OCCTO_DETAIL_URL =
+	"https://www.occto.or.jp/iinkai/kouikikeitou/2026/20261022_kouikikeitou_kaisai.html";
+const EGC_DETAIL_URL =
+	"https://www.emsc.meti.go.jp/activity/emsc_kaisai/500_kaisai.html";
+
+// sources/ の定義の詳細ページ部分
+const metiDetail: DetailDefinition = {
+	headingSelector: "h3, H3",
+	dateTimeHeadings: ["日時"],
+	agendaHeadings: ["議題"],
+};
+const occtoDetail: DetailDefinition = {
+	headingSelector: "h4",
+	dateTimeHeadings: ["日時"],
+	agendaHeadings: ["予定議題"],
+	nameSelector: "h1",
+	skipWithoutDate: true,
+};
+const egcDetail: DetailDefinition = {
+	headingSelector: "h2, h3, h4, h5, dt, th",
+	dateTimeHeadings: ["日時"],
+	agendaHeadings: ["議題", "議事次第"],
+};
+
+beforeAll(() => {
+	process.env.HTTP_MODE = "replay";
+	process.env.HTTP_FIXTURES_DIR = join(ROOT_DIR, "fixtures/http");
+});
+
+afterAll(() => {
+	delete process.env.HTTP_MODE;
+	delete process.env.HTTP_FIXTURES_DIR;
+});
+
+/**
+ * 記録済みのレスポンスの本文を取得
+ */
+async function readFixture(url: string): Promise<string> {
+	return (await fetchResource(url)).body;
+}
+
+describe("parseDetailPage", () => {
+	test("METIの詳細ページから日時・議題・資料・傍聴の情報を抽出する", async () => {
+		const detail = parseDetailPage(
+			await readFixture(METI_DETAIL_URL),
+			METI_DETAIL_URL,
+			metiDetail,
+			{ meetingDate: "2026-10-27" },
+		);
+
+		expect(detail).toEqual({
+			name: "",
+			date: "2026-10-27",
+			time: "午前10時～午後0時30分",
+			startTime: "10:00",
+			endTime: "12:30",
+			allDay: false,
+			agenda: "エネルギー基本計画の見直しについて\nその他",
+			cancelNotice: "",
+			documents: [
+				{
+					kind: "配布資料",
+					title: "議事次第",
+					url: "https://www.meti.go.jp/shingikai/enecho/kihon_seisaku/080/080_001.pdf",
+					fileType: "PDF",
+				},
+				{
+					kind: "配布資料",
+					title: "資料1 エネルギー情勢について",
+					url: "https://www.meti.go.jp/shingikai/enecho/kihon_seisaku/080/080_005.pdf",
+					fileType: "PDF",
+				},
+			],
+			venue: "経済産業省 本館17階 第1特別会議室",
+			format: "対面",
+			livestreamUrl: "https://youtu.be/kihon080",
+			viewingDeadline: "2026-10-23",
+		});
+	});
+
+	test("OCCTOの詳細ページから会議名と番号付きの議題を抽出する", async () => {
+		const detail = parseDetailPage(
+			await readFixture(OCCTO_DETAIL_URL),
+			OCCTO_DETAIL_URL,
+			occtoDetail,
+		);
+
+		expect(detail).toMatchObject({
+			name: "第90回 広域系統整備委員会",
+			date: "2026-10-22",
+			time: "15:00～17:00",
+			startTime: "15:00",
+			endTime: "17:00",
+			agenda:
+				"広域系統長期方針の進捗について\n北海道本州間連系設備の増強について",
+			format: "オンライン",
+			viewingDeadline: "2026-10-20",
+		});
+	});
+
+	test("dt の見出しは対応する dd を欄とみなす", async () => {
+		const detail = parseDetailPage(
+			await readFixture(EGC_DETAIL_URL),
+			EGC_DETAIL_URL,
+			egcDetail,
+		);
+
+		expect(detail).toMatchObject({
+			date: "2026-10-28",
+			time: "10時00分",
+			startTime: "10:00",
+			endTime: "",
+			allDay: false,
+			agenda: "電気事業者に対する業務改善勧告について",
+			venue: "経済産業省別館 会議室",
+		});
+	});
+
+	test("th の見出しは同じ行の td を欄とみなす", () => {
+		const html = `
+			<h1>第1回 検討会</h1>
+			<table>
+				<tr><th>日時</th><td>令和元年5月20日（月）午後1時30分～3時</td></tr>
+				<tr><th>議題</th><td>検討の進め方について</td></tr>
+			</table>`;
+
+		expect(
+			parseDetailPage(html, "https://example.go.jp/1.html", egcDetail),
+		).toMatchObject({
+			date: "2019-05-20",
+			time: "午後1時30分～3時",
+			startTime: "13:30",
+			endTime: "15:00",
+			allDay: false,
+			agenda: "検討の進め方について",
+		});
+	});
+
+	test("時刻を解析できない場合は日時欄の全文を残して終日とする", () => {
+		const html =
+			"<h1>第2回 検討会（延期）</h1><h3>日時</h3><p>令和8年12月\n（調整中）</p>";
+
+		expect(
+			parseDetailPage(html, "https://example.go.jp/2.html", metiDetail),
+		).toMatchObject({
+			date: "",
+			time: "令和8年12月 （調整中）",
+			startTime: "",
+			endTime: "",
+			allDay: true,
+			agenda: "",
+			cancelNotice: "延期",
+		});
+	});
+});
+
+describe("extractDetailDate", () => {
+	test("日時欄から開催日を抽出する", async () => {
+		expect(
+			extractDetailDate(await readFixture(OCCTO_DETAIL_URL), occtoDetail),
+		).toBe("2026-10-22");
+	});
+
+	test("日時欄がない場合は空文字を返す", () => {
+		expect(extractDetailDate("<h1>お知らせ</h1>", occtoDetail)).toBe("");
+	});
+});
@@ -0,0 +1,155 @@
+import * as cheerio from "cheerio";
+import type {
+	AttendanceInfo,
+	CancelNotice,
+	MeetingDocument,
+	TimeRange,
+} from "@/definitions/types";
+import { extractAttendance } from "@/features/scrape/attendance";
+import { extractDocuments } from "@/features/scrape/documents";
+import { detectCancelNotice } from "@/features/scrape/notice";
+import { parseTimeRange } from "@/utils/time";
+import { parseDate } from "./date";
+import type { DetailDefinition } from "./definition";
+
+/**
+ * 詳細ページから抽出する情報
+ */
+export type DetailData = {
+	name: string; // 詳細ページの会議名 (nameSelector を指定しない場合は空文字)
+	date: string; // 日時欄の日付 (YYYY-MM-DD形式、不明な場合は空文字)
+	time: string;
+	agenda: string;
+	cancelNotice: CancelNotice;
+	documents: MeetingDocument[];
+} & TimeRange &
+	AttendanceInfo;
+
+export const EMPTY_DETAIL: DetailData = {
+	name: "",
+	date: "",
+	time: "",
+	agenda: "",
+	cancelNotice: "",
+	documents: [],
+	venue: "",
+	format: "",
+	livestreamUrl: "",
+	viewingDeadline: "",
+	startTime: "",
+	endTime: "",
+	allDay: true,
+};
+
+/**
+ * 見出しに keywords のいずれかを含む欄のテキストとリストの項目を取得
+ * 見出しが th の場合は同じ行の td、それ以外 (dt を含む) は次の要素を欄とみなす
+ * 見つからない場合は空のテキストを返す
+ */
+function findSection(
+	$: cheerio.CheerioAPI,
+	headingSelector: string,
+	keywords: string[],
+): { text: string; items: string[] } {
+	for (const heading of $(headingSelector).toArray()) {
+		const $heading = $(heading);
+		const headingText = $heading.text().trim();
+		if (!keywords.some((keyword) => headingText.includes(keyword))) {
+			continue;
+		}
+		const $section = $heading.is("th")
+			? $heading.siblings("td").first()
+			: $heading.next();
+		if ($section.length > 0) {
+			return {
+				text: $section.text().trim(),
+				items: $section
+					.find("li")
+					.map((_, li) => $(li).text().trim())
+					.get(),
+			};
+		}
+	}
+	return { text: "", items: [] };
+}
+
+/**
+ * 詳細ページの日時欄から開催日を YYYY-MM-DD 形式で抽出 (キャッシュの再取得判定用)
+ */
+export function extractDetailDate(
+	html: string,
+	definition: DetailDefinition,
+	datePattern?: RegExp,
+): string {
+	const $ = cheerio.load(html);
+	const { text } = findSection(
+		$,
+		definition.headingSelector,
+		definition.dateTimeHeadings,
+	);
+	return parseDate(text, datePattern);
+}
+
+/**
+ * 詳細ページのHTMLから会議名、日時と議題、中止・延期の告知、資料のリンク、場所と傍聴の情報を抽出
+ * 開催日 (meetingDate) は一覧から取得済みの場合に傍聴申込締切の年の補完に使う
+ */
+export function parseDetailPage(
+	html: string,
+	pageUrl: string,
+	definition: DetailDefinition,
+	options: { meetingDate?: string; datePattern?: RegExp } = {},
+): DetailData {
+	const $ = cheerio.load(html);
+
+	let date = "";
+	let time = "";
+	let timeRange: TimeRange = { startTime: "", endTime: "", allDay: true };
+
+	const name = definition.nameSelector
+		? $(definition.nameSelector).first().text().trim()
+		: "";
+
+	// "日時" 欄: "2026年2月17日（火曜日）18時00分～20時00分" など
+	const dateTimeText = findSection(
+		$,
+		definition.headingSelector,
+		definition.dateTimeHeadings,
+	).text;
+	if (dateTimeText) {
+		date = parseDate(dateTimeText, options.datePattern);
+
+		const { text, ...range } = parseTimeRange(dateTimeText);
+		timeRange = range;
+		// パターンにマッチしない場合はテキスト全体を入れておく (後で確認用)
+		time = text ?? dateTimeText.replace(/[\n\r]/g, " ").trim();
+	}
+
+	// "議題" 欄: リストの場合は項目を結合
+	const agendaSection = findSection(
+		$,
+		definition.headingSelector,
+		definition.agendaHeadings,
+	);
+	const agenda =
+		agendaSection.items.length > 0
+			? agendaSection.items.join("\n")
+			: agendaSection.text;
+
+	// ページタイトルや日時欄に中止・延期の告知がないか確認
+	const cancelNotice = detectCancelNotice($("h1").first().text(), dateTimeText);
+
+	const documents = extractDocuments($, pageUrl);
+	const attendance = extractAttendance($, pageUrl, options.meetingDate || date);
+
+	return {
+		name,
+		date,
+		time,
+		agenda,
+		cancelNotice,
+		documents,
+		...timeRange,
+		...attendance,
+	};
+}
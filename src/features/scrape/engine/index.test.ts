@@ -0,0 +1,470 @@
+import {
+	afterAll,
+	beforeAll,
+	describe,
+	expect,
+	setSystemTime,
+	spyOn,
+	test,
+} from "bun:test";
+import { join } from "node:path";
+import type {
+	MeetingData,
+	MonthRange,
+	ValidationIssue,
+} from "@/definitions/types";
+import { loadSources } from "@/features/scrape/registry";
+import type { SourceDefinition } from "./definition";
+import { filterEntries, getScrapeRange } from "./index";
+
+// 記録済みのレスポンス (fixtures/http) を再生して取得元の定義ごとに解析する
+const ROOT_DIR = join(import.meta.dir, "../../../..");
+
+const logSpy = spyOn(console, "log");
+
+beforeAll(() => {
+	process.env.HTTP_MODE = "replay";
+	process.env.HTTP_FIXTURES_DIR = join(ROOT_DIR, "fixtures/http");
+	logSpy.mockImplementation(() => {});
+});
+
+afterAll(() => {
+	delete process.env.HTTP_MODE;
+	delete process.env.HTTP_FIXTURES_DIR;
+	logSpy.mockRestore();
+});
+
+/**
+ * 記録済みのレスポンスから取得元の会議データを作成
+ * range を省略した場合は実行日時点の既定の期間 (一覧のURL) を使う
+ */
+function scrapeFixtures(
+	id: string,
+	range?: MonthRange,
+	onIssue?: (issue: ValidationIssue) => void,
+): Promise<MeetingData[]> {
+	const source = loadSources(join(ROOT_DIR, "sources")).find(
+		(source) => source.id === id,
+	);
+	if (!source) {
+		throw new Error(`Unknown source: ${id}`);
+	}
+	return source.scrape({ range, onIssue });
+}
+
+describe("meti", () => {
+	beforeAll(() => {
+		setSystemTime(new Date("2026-10-19T09:00:00+09:00"));
+	});
+
+	afterAll(() => {
+		setSystemTime();
+		delete process.env.SCRAPE_LOOKAHEAD_MONTHS;
+	});
+
+	test("開催案内と詳細ページから会議データを作成する", async () => {
+		// 期間を設定しない場合は開催案内のすべての会議を取得する
+		const meetings = await scrapeFixtures("meti");
+
+		expect(meetings).toEqual([
+			{
+				name: "総合資源エネルギー調査会 基本政策分科会（第79回）",
+				date: "2026-08-25",
+				time: "14時00分～16時00分",
+				startTime: "14:00",
+				endTime: "16:00",
+				allDay: false,
+				agenda: "エネルギー需給の動向について",
+				detailUrl:
+					"https://www.meti.go.jp/shingikai/enecho/kihon_seisaku/079.html",
+				cancelNotice: "",
+				documents: [
+					{
+						kind: "配布資料",
+						title: "議事次第",
+						url: "https://www.meti.go.jp/shingikai/enecho/kihon_seisaku/079/079_001.pdf",
+						fileType: "PDF",
+					},
+					{
+						kind: "議事要旨",
+						title: "議事要旨",
+						url: "https://www.meti.go.jp/shingikai/enecho/kihon_seisaku/079/079_gijiyoshi.pdf",
+						fileType: "PDF",
+					},
+				],
+				venue: "オンライン開催",
+				format: "オンライン",
+				livestreamUrl: "",
+				viewingDeadline: "",
+			},
+			{
+				name: "総合資源エネルギー調査会 基本政策分科会（第80回）",
+				date: "2026-10-27",
+				time: "午前10時～午後0時30分",
+				startTime: "10:00",
+				endTime: "12:30",
+				allDay: false,
+				agenda: "エネルギー基本計画の見直しについて\nその他",
+				detailUrl:
+					"https://www.meti.go.jp/shingikai/enecho/kihon_seisaku/080.html",
+				cancelNotice: "",
+				documents: [
+					{
+						kind: "配布資料",
+						title: "議事次第",
+						url: "https://www.meti.go.jp/shingikai/enecho/kihon_seisaku/080/080_001.pdf",
+						fileType: "PDF",
+					},
+					{
+						kind: "配布資料",
+						title: "資料1 エネルギー情勢について",
+						url: "https://www.meti.go.jp/shingikai/enecho/kihon_seisaku/080/080_005.pdf",
+						fileType: "PDF",
+					},
+				],
+				venue: "経済産業省 本館17階 第1特別会議室",
+				format: "対面",
+				livestreamUrl: "https://youtu.be/kihon080",
+				viewingDeadline: "2026-10-23",
+			},
+			{
+				name: "産業構造審議会 保安・消費生活用製品安全分科会 電力安全小委員会（第35回）",
+				date: "2026-10-29",
+				time: "14時から16時",
+				startTime: "14:00",
+				endTime: "16:00",
+				allDay: false,
+				agenda: "電気保安制度の見直しについて",
+				detailUrl:
+					"https://wwws.meti.go.jp/interface/honsho/committee/index.cgi/committee/detail/2026102901",
+				cancelNotice: "",
+				documents: [],
+				venue: "オンライン開催",
+				format: "オンライン",
+				livestreamUrl: "",
+				viewingDeadline: "",
+			},
+			{
+				// 終了時刻の記載がない
+				name: "【開催中止】総合資源エネルギー調査会 省エネルギー・新エネルギー分科会 水素政策小委員会（第20回）",
+				date: "2026-11-05",
+				time: "15時30分",
+				startTime: "15:30",
+				endTime: "",
+				allDay: false,
+				agenda: "水素社会推進法に基づく支援について",
+				detailUrl:
+					"https://wwws.meti.go.jp/interface/honsho/committee/index.cgi/detail/2026110501",
+				cancelNotice: "中止",
+				documents: [],
+				venue: "経済産業省 別館3階 312各省庁共用会議室及びオンライン",
+				format: "ハイブリッド",
+				livestreamUrl: "",
+				viewingDeadline: "",
+			},
+			{
+				// 開催日を解析できない場合は要確認とするため一覧の表記を残す
+				name: "電力・ガス基本政策小委員会 制度検討作業部会（第3回）",
+				date: "調整中",
+				time: "令和8年11月下旬（予定）",
+				startTime: "",
+				endTime: "",
+				allDay: true,
+				agenda: "未定",
+				detailUrl:
+					"https://www.meti.go.jp/shingikai/energy_environment/denryoku_gas/003.html",
+				cancelNotice: "",
+				documents: [],
+				venue: "",
+				format: "",
+				livestreamUrl: "",
+				viewingDeadline: "",
+			},
+		]);
+	});
+
+	test("環境変数で期間を設定した場合は開催月が期間内の会議に絞り込む", async () => {
+		// 2026-10 から 2026-12
+		process.env.SCRAPE_LOOKAHEAD_MONTHS = "2";
+
+		const meetings = await scrapeFixtures("meti");
+
+		expect(meetings.map((meeting) => meeting.date)).toEqual([
+			"2026-10-27",
+			"2026-10-29",
+			"2026-11-05",
+			"調整中",
+		]);
+	});
+});
+
+describe("occto", () => {
+	test("ニュースJSONと詳細ページから会議データを作成する", async () => {
+		const issues: ValidationIssue[] = [];
+		const meetings = await scrapeFixtures(
+			"occto",
+			{ from: "2026-10", to: "2026-10" },
+			(issue) => issues.push(issue),
+		);
+
+		expect(meetings).toEqual([
+			{
+				name: "第90回 広域系統整備委員会",
+				date: "2026-10-22",
+				time: "15:00～17:00",
+				startTime: "15:00",
+				endTime: "17:00",
+				allDay: false,
+				agenda:
+					"広域系統長期方針の進捗について\n北海道本州間連系設備の増強について",
+				detailUrl:
+					"https://www.occto.or.jp/iinkai/kouikikeitou/2026/20261022_kouikikeitou_kaisai.html",
+				cancelNotice: "",
+				documents: [
+					{
+						kind: "配布資料",
+						title: "議事次第",
+						url: "https://www.occto.or.jp/iinkai/kouikikeitou/2026/files/kouiki_90_00.pdf",
+						fileType: "PDF",
+					},
+					{
+						kind: "配布資料",
+						title: "資料1 広域系統長期方針の進捗について",
+						url: "https://www.occto.or.jp/iinkai/kouikikeitou/2026/files/kouiki_90_01.pdf",
+						fileType: "PDF",
+					},
+				],
+				venue: "",
+				format: "オンライン",
+				livestreamUrl: "",
+				viewingDeadline: "2026-10-20",
+			},
+			{
+				// 終了時刻の記載がない
+				name: "第12回 調整力及び需給バランス評価等に関する委員会",
+				date: "2026-10-30",
+				time: "13時",
+				startTime: "13:00",
+				endTime: "",
+				allDay: false,
+				agenda: "2026年度冬季の需給見通しについて",
+				detailUrl:
+					"https://www.occto.or.jp/iinkai/chouseiryoku/2026/20261030_chouseiryoku_kaisai.html",
+				cancelNotice: "",
+				documents: [],
+				venue: "電力広域的運営推進機関 会議室A（東京都江東区豊洲）",
+				format: "対面",
+				livestreamUrl: "",
+				viewingDeadline: "",
+			},
+			{
+				name: "第15回 容量市場の在り方等に関する検討会（中止）",
+				date: "2026-10-08",
+				time: "10:00～12:00",
+				startTime: "10:00",
+				endTime: "12:00",
+				allDay: false,
+				agenda: "容量市場の制度見直しについて",
+				detailUrl:
+					"https://www.occto.or.jp/iinkai/youryou/2026/20261008_youryou_kaisai.html",
+				cancelNotice: "中止",
+				documents: [],
+				venue: "",
+				format: "",
+				livestreamUrl: "",
+				viewingDeadline: "",
+			},
+		]);
+		// 詳細ページに開催日がないお知らせは登録せず要確認とする
+		expect(issues).toEqual([
+			{
+				detailUrl:
+					"https://www.occto.or.jp/iinkai/jukyu/2026/20261020_jukyu_mitoshi.html",
+				name: "2026年度冬季の電力需給の見通しについて",
+				reason: "スキップ",
+				detail: "詳細ページから開催日を取得できなかったため登録していません",
+			},
+		]);
+	});
+});
+
+describe("egc", () => {
+	test("開催案内と詳細ページから会議データを作成する", async () => {
+		const meetings = await scrapeFixtures("egc", {
+			from: "2026-09",
+			to: "2026-10",
+		});
+
+		expect(meetings).toEqual([
+			{
+				name: "第500回 電力・ガス取引監視等委員会",
+				date: "2026-10-28",
+				time: "10時00分",
+				startTime: "10:00",
+				endTime: "",
+				allDay: false,
+				agenda: "電気事業者に対する業務改善勧告について",
+				detailUrl:
+					"https://www.emsc.meti.go.jp/activity/emsc_kaisai/500_kaisai.html",
+				cancelNotice: "",
+				documents: [],
+				venue: "経済産業省別館 会議室",
+				format: "対面",
+				livestreamUrl: "",
+				viewingDeadline: "",
+			},
+			{
+				name: "第121回 制度設計・監視専門会合",
+				date: "2026-10-21",
+				time: "午後3時00分～午後5時00分",
+				startTime: "15:00",
+				endTime: "17:00",
+				allDay: false,
+				agenda: "卸電力市場の監視について\n需給調整市場の運用状況について",
+				detailUrl:
+					"https://www.emsc.meti.go.jp/activity/emsc_system/121_kaisai.html",
+				cancelNotice: "",
+				documents: [
+					{
+						kind: "配布資料",
+						title: "議事次第",
+						url: "https://www.emsc.meti.go.jp/activity/emsc_system/pdf/121_01_00.pdf",
+						fileType: "PDF",
+					},
+					{
+						kind: "配布資料",
+						title: "資料3 卸電力市場の監視について",
+						url: "https://www.emsc.meti.go.jp/activity/emsc_system/pdf/121_03_00.pdf",
+						fileType: "PDF",
+					},
+				],
+				venue: "電力・ガス取引監視等委員会 大会議室及びオンライン",
+				format: "ハイブリッド",
+				livestreamUrl: "https://www.youtube.com/watch?v=emsc121",
+				viewingDeadline: "2026-10-16",
+			},
+			{
+				// 詳細ページに開催日がないため一覧の掲載日で代用する
+				name: "【延期】第20回 ガス事業制度検討ワーキンググループ",
+				date: "2026-09-25",
+				time: "調整中",
+				startTime: "",
+				endTime: "",
+				allDay: true,
+				agenda: "ガス小売市場の競争状況について",
+				detailUrl:
+					"https://www.emsc.meti.go.jp/activity/emsc_gas/020_kaisai.html",
+				cancelNotice: "延期",
+				documents: [],
+				venue: "",
+				format: "",
+				livestreamUrl: "",
+				viewingDeadline: "",
+			},
+		]);
+	});
+
+	test("開催日が期間外の会議は除外する", async () => {
+		const meetings = await scrapeFixtures("egc", {
+			from: "2026-10",
+			to: "2026-10",
+		});
+
+		expect(meetings.map((meeting) => meeting.date)).toEqual([
+			"2026-10-28",
+			"2026-10-21",
+		]);
+	});
+});
+
+describe("getScrapeRange", () => {
+	const definition = {
+		list: { type: "html", url: "https://example.go.jp/", itemSelector: "tr" },
+	} as SourceDefinition;
+	const unfiltered = {
+		list: { ...definition.list, filterByDefault: false },
+	} as SourceDefinition;
+
+	beforeAll(() => {
+		setSystemTime(new Date("2026-10-19T09:00:00+09:00"));
+	});
+
+	afterAll(() => {
+		setSystemTime();
+		delete process.env.SCRAPE_LOOKBACK_MONTHS;
+	});
+
+	test("指定した期間を優先する", () => {
+		const range = { from: "2025-01", to: "2025-03" };
+
+		expect(getScrapeRange(unfiltered, { range })).toEqual(range);
+	});
+
+	test("期間を指定しない場合は既定の期間を使う", () => {
+		expect(getScrapeRange(definition, {})).toEqual({
+			from: "2026-10",
+			to: "2026-12",
+		});
+	});
+
+	test("filterByDefault が false の場合は環境変数で期間を設定したときのみ絞り込む", () => {
+		expect(getScrapeRange(unfiltered, {})).toBeUndefined();
+
+		process.env.SCRAPE_LOOKBACK_MONTHS = "1";
+
+		expect(getScrapeRange(unfiltered, {})).toEqual({
+			from: "2026-09",
+			to: "2026-12",
+		});
+	});
+});
+
+describe("filterEntries", () => {
+	const range = { from: "2026-10", to: "2026-11" };
+	const entries = [
+		{ name: "前月", date: "2026-09-30", detailUrl: "https://example.go.jp/1" },
+		{ name: "当月", date: "2026-10-01", detailUrl: "https://example.go.jp/2" },
+		{
+			name: "期間末",
+			date: "2026-11-30",
+			detailUrl: "https://example.go.jp/3",
+		},
+		{
+			name: "翌々月",
+			date: "2026-12-01",
+			detailUrl: "https://example.go.jp/4",
+		},
+		{ name: "日付不明", date: "調整中", detailUrl: "https://example.go.jp/5" },
+	];
+
+	function names(definition: Partial<SourceDefinition["list"]>): string[] {
+		return filterEntries(
+			entries,
+			{
+				list: { type: "html", url: "", itemSelector: "", ...definition },
+			} as SourceDefinition,
+			range,
+		).map((entry) => entry.name);
+	}
+
+	test("開催日が期間外のエントリーを除外し、日付を解析できないものは残す", () => {
+		expect(names({})).toEqual(["当月", "期間末", "日付不明"]);
+	});
+
+	test("掲載日の場合は leadMonths か月前の掲載から含める", () => {
+		expect(names({ dateKind: "published", leadMonths: 1 })).toEqual([
+			"前月",
+			"当月",
+			"期間末",
+			"日付不明",
+		]);
+	});
+
+	test("開催日の場合は leadMonths を使わない", () => {
+		expect(names({ dateKind: "meeting", leadMonths: 1 })).toEqual([
+			"当月",
+			"期間末",
+			"日付不明",
+		]);
+	});
+});
@@ -0,0 +1,336 @@
+import * as cheerio from "cheerio";
+import type {
+	MeetingData,
+	MeetingDocument,
+	MeetingSource,
+	MonthRange,
+	ScrapeOptions,
+} from "@/definitions/types";
+import { fetchDetailPage } from "@/features/scrape/cache";
+import { extractDocuments } from "@/features/scrape/documents";
+import { detectCancelNotice } from "@/features/scrape/notice";
+import {
+	addMonths,
+	getDefaultRange,
+	isInRange,
+	isRangeConfigured,
+	listMonths,
+	toMonth,
+} from "@/features/scrape/range";
+import { fetchWithUserAgent } from "@/utils/http";
+import type { SourceDefinition } from "./definition";
+import {
+	type DetailData,
+	EMPTY_DETAIL,
+	extractDetailDate,
+	parseDetailPage,
+} from "./detail";
+import { type ListEntry, parseHtmlList, parseJsonList } from "./list";
+
+/**
+ * 月別一覧のURLを作成 ({year} {month} を置換。month は先頭の0なし)
+ */
+function getArchiveUrl(template: string, month: string): string {
+	const [year = "", monthNumber = ""] = month.split("-");
+	return template
+		.replace(/\{year\}/g, year)
+		.replace(/\{month\}/g, String(Number(monthNumber)));
+}
+
+/**
+ * 取得する期間を決める
+ * 期間を指定しない同期では既定の期間を使い、filterByDefault が false の取得元は
+ * 環境変数で期間を設定した場合のみ絞り込む (絞り込まない場合は undefined)
+ */
+export function getScrapeRange(
+	definition: SourceDefinition,
+	options: ScrapeOptions,
+): MonthRange | undefined {
+	if (options.range) {
+		return options.range;
+	}
+	if (definition.list.filterByDefault === false && !isRangeConfigured()) {
+		return undefined;
+	}
+	return getDefaultRange();
+}
+
+/**
+ * 一覧の日付で期間外のエントリーを除外
+ * 掲載日の場合は leadMonths か月前の掲載から含める
+ * 日付を解析できなかったエントリーは要確認として報告できるよう残す
+ */
+export function filterEntries(
+	entries: ListEntry[],
+	definition: SourceDefinition,
+	range: MonthRange,
+): ListEntry[] {
+	const { dateKind = "meeting", leadMonths = 0 } = definition.list;
+	const from =
+		dateKind === "published" ? addMonths(range.from, -leadMonths) : range.from;
+
+	return entries.filter((entry) => {
+		const month = toMonth(entry.date);
+		return month === undefined || isInRange(month, { from, to: range.to });
+	});
+}
+
+/**
+ * 一覧のエントリーと詳細ページの情報から会議データを作成
+ * 開催日が取得できない場合は undefined を返す
+ */
+export function toMeetingData(
+	entry: ListEntry,
+	detail: DetailData,
+	definition: SourceDefinition,
+): MeetingData | undefined {
+	// 一覧の日付が掲載日の場合は詳細ページの開催日を使う
+	// 詳細ページから取得できず、開催日のない会議も登録する場合は一覧の日付で代用する
+	const { skipWithoutDate = false } = definition.detail;
+	const date =
+		(definition.list.dateKind ?? "meeting") === "meeting"
+			? entry.date
+			: detail.date || (skipWithoutDate ? "" : entry.date);
+	if (!date && skipWithoutDate) {
+		return undefined;
+	}
+
+	return {
+		name: detail.name || entry.name,
+		date,
+		time: detail.time,
+		startTime: detail.startTime,
+		endTime: detail.endTime,
+		allDay: detail.allDay,
+		agenda: detail.agenda,
+		detailUrl: entry.detailUrl,
+		// 一覧の会議名に告知が付いている場合もある
+		cancelNotice: detectCancelNotice(entry.name) || detail.cancelNotice,
+		documents: detail.documents,
+		venue: detail.venue,
+		format: detail.format,
+		livestreamUrl: detail.livestreamUrl,
+		viewingDeadline: detail.viewingDeadline,
+	};
+}
+
+/**
+ * 書き込み先シート名から実行履歴などのシート名を作成
+ */
+function getSheetNames(
+	sheetName: string,
+): Pick<
+	MeetingSource,
+	| "sheetName"
+	| "historySheetName"
+	| "changeLogSheetName"
+	| "documentSheetName"
+	| "reviewSheetName"
+	| "archiveSheetName"
+> {
+	return {
+		sheetName,
+		historySheetName: `${sheetName}_実行履歴`,
+		changeLogSheetName: `${sheetName}_変更履歴`,
+		documentSheetName: `${sheetName}_資料`,
+		reviewSheetName: `${sheetName}_要確認`,
+		archiveSheetName: `${sheetName}_過去`,
+	};
+}
+
+/**
+ * 取得元の定義から MeetingSource を作成
+ * 一覧 (HTML または JSON) の各エントリーの詳細ページを取得して会議データにする
+ * 進捗ログは取得結果の出力 (scrape コマンド) に混ざらないよう標準エラー出力に書き込む
+ */
+export function createDefinedSource(
+	definition: SourceDefinition,
+): MeetingSource {
+	const { list, detail: detailDefinition } = definition;
+	const datePattern = definition.datePattern
+		? new RegExp(definition.datePattern)
+		: undefined;
+	const dateFromList = (list.dateKind ?? "meeting") === "meeting";
+
+	/**
+	 * 一覧を取得して会議エントリーを抽出
+	 */
+	async function fetchList(url: string): Promise<ListEntry[]> {
+		const text = await fetchWithUserAgent(url);
+		try {
+			return list.type === "json"
+				? parseJsonList(text, list, url, datePattern)
+				: parseHtmlList(text, list, url, datePattern);
+		} catch (error) {
+			throw new Error(
+				`Failed to parse ${definition.displayName} list ${url}: ${error instanceof Error ? error.message : error}`,
+			);
+		}
+	}
+
+	/**
+	 * 期間内の会議エントリーを取得 (range がない場合は一覧のすべて)
+	 * 過去分の取り込みで月別一覧 (archiveUrl) がある場合は月ごとに取得する
+	 */
+	async function fetchListEntries(
+		range: MonthRange | undefined,
+		options: ScrapeOptions,
+	): Promise<ListEntry[]> {
+		if (!range) {
+			return fetchList(list.url);
+		}
+		if (!options.range || !list.archiveUrl) {
+			return filterEntries(await fetchList(list.url), definition, range);
+		}
+
+		const entries = new Map<string, ListEntry>();
+		for (const month of listMonths(options.range)) {
+			console.error(
+				`Fetching ${definition.displayName} archive for ${month}...`,
+			);
+			for (const entry of await fetchList(
+				getArchiveUrl(list.archiveUrl, month),
+			)) {
+				if (!entries.has(entry.detailUrl)) {
+					entries.set(entry.detailUrl, entry);
+				}
+			}
+		}
+		return filterEntries([...entries.values()], definition, range);
+	}
+
+	/**
+	 * 詳細ページを取得して解析
+	 * 取得・解析に失敗した場合は空の情報を返す
+	 */
+	async function fetchDetail(
+		entry: ListEntry,
+		options: ScrapeOptions,
+	): Promise<DetailData> {
+		const { detailUrl } = entry;
+		const meetingDate = dateFromList ? entry.date : undefined;
+		try {
+			const html = await fetchDetailPage(detailUrl, {
+				meetingDate,
+				// 開催日が一覧にない場合は本文から判定する
+				extractDate: (body) =>
+					extractDetailDate(body, detailDefinition, datePattern),
+				refresh: options.refresh,
+			});
+			return parseDetailPage(html, detailUrl, detailDefinition, {
+				meetingDate,
+				datePattern,
+			});
+		} catch (error) {
+			console.error(`Failed to parse detail page ${detailUrl}:`, error);
+			options.onIssue?.({
+				detailUrl,
+				name: entry.name,
+				reason: "詳細ページ取得失敗",
+				detail: error instanceof Error ? error.message : String(error),
+			});
+			return EMPTY_DETAIL;
+		}
+	}
+
+	/**
+	 * 全会議データをスクレイピング
+	 */
+	async function scrape(options: ScrapeOptions = {}): Promise<MeetingData[]> {
+		console.error(
+			`Starting to scrape ${definition.displayName} committee meetings...`,
+		);
+
+		const range = getScrapeRange(definition, options);
+		const entries = await fetchListEntries(range, options);
+		console.error(
+			`Found ${entries.length} meetings on ${definition.displayName} list (${range ? `${range.from} to ${range.to}` : "all"})`,
+		);
+
+		const meetings: MeetingData[] = [];
+		for (const entry of entries) {
+			console.error(`Fetching details for: ${entry.name}`);
+
+			const detail = await fetchDetail(entry, options);
+			const meeting = toMeetingData(entry, detail, definition);
+
+			if (!meeting) {
+				console.error(`Skipping entry due to missing date: ${entry.detailUrl}`);
+				// 詳細ページの取得失敗は報告済みのため、解析できなかった場合のみ報告する
+				if (detail !== EMPTY_DETAIL) {
+					options.onIssue?.({
+						detailUrl: entry.detailUrl,
+						name: detail.name || entry.name,
+						reason: "スキップ",
+						detail:
+							"詳細ページから開催日を取得できなかったため登録していません",
+					});
+				}
+				continue;
+			}
+
+			// 一覧の日付が掲載日の場合、開催日でも期間外の会議を除外する
+			const month = toMonth(meeting.date);
+			if (
+				range &&
+				list.filterByMeetingDate &&
+				month !== undefined &&
+				!isInRange(month, range)
+			) {
+				continue;
+			}
+
+			meetings.push(meeting);
+		}
+
+		console.error(`Successfully scraped ${meetings.length} meetings`);
+		return meetings;
+	}
+
+	/**
+	 * 詳細ページを取得して資料のリンクを抽出 (一覧から外れた会議の資料の確認用)
+	 */
+	async function fetchDocuments(
+		url: string,
+		meetingDate: string,
+		options: ScrapeOptions = {},
+	): Promise<MeetingDocument[]> {
+		const html = await fetchDetailPage(url, {
+			meetingDate,
+			refresh: options.refresh,
+		});
+		return extractDocuments(cheerio.load(html), url);
+	}
+
+	return {
+		id: definition.id,
+		displayName: definition.displayName,
+		...getSheetNames(definition.sheetName),
+		calendarColorId: definition.calendarColorId,
+		scrape,
+		fetchDocuments,
+	};
+}
+
+/**
+ * 不正な定義ファイルの MeetingSource を作成
+ * 取得のたびに定義のエラーを投げ、その取得元のみを失敗として記録させる
+ */
+export function createInvalidSource(definition: {
+	id: string;
+	sheetName: string;
+	error: string;
+}): MeetingSource {
+	const fail = async (): Promise<never> => {
+		throw new Error(definition.error);
+	};
+
+	return {
+		id: definition.id,
+		displayName: definition.id,
+		...getSheetNames(definition.sheetName),
+		calendarColorId: "",
+		scrape: fail,
+		fetchDocuments: fail,
+	};
+}
@@ -0,0 +1,264 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { join } from "node:path";
+import { fetchResource } from "@/utils/http";
+import type { HtmlListDefinition, JsonListDefinition } from "./definition";
+import { parseHtmlList, parseJsonList } from "./list";
+
+const ROOT_DIR = join(import.meta.dir, "../../../..");
+
+const METI_LIST_URL =
+	"https://wwws.meti.go.jp/interface/honsho/committee/index.cgi/committee";
+const OCCTO_LIST_URL = "https://www.occto.or.jp/_include/json/news-list.json";
+const EGC_LIST_URL = "https://www.emsc.meti.go.jp/activity/kaisai.html";
+
+// sources/ の定義の一覧部分
+const metiList: HtmlListDefinition = {
+	type: "html",
+	url: METI_LIST_URL,
+	baseUrl: "https://wwws.meti.go.jp/interface/honsho/committee/index.cgi/",
+	itemSelector: "table.tbl-si tr",
+	dateSelector: "th",
+	linkSelector: "td a",
+};
+const occtoList: JsonListDefinition = {
+	type: "json",
+	url: OCCTO_LIST_URL,
+	baseUrl: "https://www.occto.or.jp/",
+	fields: { name: "title", url: "url", date: "published_date" },
+	filters: [{ path: "categories", some: { id: "50", parent_id: "0" } }],
+	dateKind: "published",
+};
+const egcList: HtmlListDefinition = {
+	type: "html",
+	url: EGC_LIST_URL,
+	itemSelector: "#main ul li",
+	dateSelector: ".date",
+	dateKind: "published",
+};
+
+beforeAll(() => {
+	process.env.HTTP_MODE = "replay";
+	process.env.HTTP_FIXTURES_DIR = join(ROOT_DIR, "fixtures/http");
+});
+
+afterAll(() => {
+	delete process.env.HTTP_MODE;
+	delete process.env.HTTP_FIXTURES_DIR;
+});
+
+/**
+ * 記録済みのレスポンスの本文を取得
+ */
+async function readFixture(url: string): Promise<string> {
+	return (await fetchResource(url)).body;
+}
+
+describe("parseHtmlList", () => {
+	test("METIの開催案内から会議エントリーを抽出する", async () => {
+		const entries = parseHtmlList(
+			await readFixture(METI_LIST_URL),
+			metiList,
+			METI_LIST_URL,
+		);
+
+		expect(entries).toEqual([
+			{
+				name: "総合資源エネルギー調査会 基本政策分科会（第79回）",
+				date: "2026-08-25",
+				detailUrl:
+					"https://www.meti.go.jp/shingikai/enecho/kihon_seisaku/079.html",
+			},
+			{
+				name: "総合資源エネルギー調査会 基本政策分科会（第80回）",
+				date: "2026-10-27",
+				detailUrl:
+					"https://www.meti.go.jp/shingikai/enecho/kihon_seisaku/080.html",
+			},
+			{
+				// ルート相対パスは基準のホストに付ける
+				name: "産業構造審議会 保安・消費生活用製品安全分科会 電力安全小委員会（第35回）",
+				date: "2026-10-29",
+				detailUrl:
+					"https://wwws.meti.go.jp/interface/honsho/committee/index.cgi/committee/detail/2026102901",
+			},
+			{
+				// 相対パスは基準の末尾に付ける
+				name: "【開催中止】総合資源エネルギー調査会 省エネルギー・新エネルギー分科会 水素政策小委員会（第20回）",
+				date: "2026-11-05",
+				detailUrl:
+					"https://wwws.meti.go.jp/interface/honsho/committee/index.cgi/detail/2026110501",
+			},
+			{
+				// 日付を解析できない場合は元の表記を残す
+				name: "電力・ガス基本政策小委員会 制度検討作業部会（第3回）",
+				date: "調整中",
+				detailUrl:
+					"https://www.meti.go.jp/shingikai/energy_environment/denryoku_gas/003.html",
+			},
+		]);
+	});
+
+	test("EGCの開催案内から日付のあるエントリーのみを抽出する", async () => {
+		const entries = parseHtmlList(
+			await readFixture(EGC_LIST_URL),
+			egcList,
+			EGC_LIST_URL,
+		);
+
+		expect(entries).toEqual([
+			{
+				name: "第500回 電力・ガス取引監視等委員会",
+				date: "2026-10-14",
+				detailUrl:
+					"https://www.emsc.meti.go.jp/activity/emsc_kaisai/500_kaisai.html",
+			},
+			{
+				name: "第121回 制度設計・監視専門会合",
+				date: "2026-10-09",
+				detailUrl:
+					"https://www.emsc.meti.go.jp/activity/emsc_system/121_kaisai.html",
+			},
+			{
+				name: "【延期】第20回 ガス事業制度検討ワーキンググループ",
+				date: "2026-09-25",
+				detailUrl:
+					"https://www.emsc.meti.go.jp/activity/emsc_gas/020_kaisai.html",
+			},
+			{
+				name: "第120回 制度設計・監視専門会合",
+				date: "2026-07-30",
+				detailUrl:
+					"https://www.emsc.meti.go.jp/activity/emsc_system/120_kaisai.html",
+			},
+		]);
+	});
+
+	test("会議名は前後の空白のみ除き、詳細URLの重複は最初のものを残す", () => {
+		const html = `
+			<table class="tbl-si">
+				<tr><th>2026年10月1日</th><td><a href="https://www.meti.go.jp/a.html">
+					第1回　小委員会  （合同開催）
+				</a></td></tr>
+				<tr><th>2026年10月2日</th><td><a href="https://www.meti.go.jp/a.html">重複</a></td></tr>
+				<tr><th>2026年10月3日</th><td><a href="#top">ページの先頭へ</a></td></tr>
+			</table>`;
+
+		expect(parseHtmlList(html, metiList, METI_LIST_URL)).toEqual([
+			{
+				name: "第1回　小委員会  （合同開催）",
+				date: "2026-10-01",
+				detailUrl: "https://www.meti.go.jp/a.html",
+			},
+		]);
+	});
+
+	test("日付の正規表現を指定した場合はその形式で解析する", () => {
+		const html = `<ul id="main"><li><span class="date">2026.10.05</span><a href="x.html">会議</a></li></ul>`;
+
+		expect(
+			parseHtmlList(
+				html,
+				{ ...egcList, itemSelector: "#main li" },
+				EGC_LIST_URL,
+				/(?<year>\d{4})\.(?<month>\d{1,2})\.(?<day>\d{1,2})/,
+			),
+		).toEqual([
+			{
+				name: "会議",
+				date: "2026-10-05",
+				detailUrl: "https://www.emsc.meti.go.jp/activity/x.html",
+			},
+		]);
+	});
+});
+
+describe("parseJsonList", () => {
+	test("OCCTOのニュースJSONから委員会のエントリーを抽出する", async () => {
+		const entries = parseJsonList(
+			await readFixture(OCCTO_LIST_URL),
+			occtoList,
+			OCCTO_LIST_URL,
+		);
+
+		expect(entries).toEqual([
+			{
+				name: "第90回 広域系統整備委員会の開催について",
+				date: "2026-10-15",
+				detailUrl:
+					"https://www.occto.or.jp/iinkai/kouikikeitou/2026/20261022_kouikikeitou_kaisai.html",
+			},
+			{
+				// 完全なURLはそのまま、数値のカテゴリーIDも一致させる
+				name: "第12回 調整力及び需給バランス評価等に関する委員会の開催について",
+				date: "2026-10-16",
+				detailUrl:
+					"https://www.occto.or.jp/iinkai/chouseiryoku/2026/20261030_chouseiryoku_kaisai.html",
+			},
+			{
+				// 相対パスは基準の末尾に付ける
+				name: "第15回 容量市場の在り方等に関する検討会（中止）",
+				date: "2026-10-01",
+				detailUrl:
+					"https://www.occto.or.jp/iinkai/youryou/2026/20261008_youryou_kaisai.html",
+			},
+			{
+				name: "2026年度冬季の電力需給の見通しについて",
+				date: "2026-10-20",
+				detailUrl:
+					"https://www.occto.or.jp/iinkai/jukyu/2026/20261020_jukyu_mitoshi.html",
+			},
+			{
+				name: "第89回 広域系統整備委員会の開催について",
+				date: "2026-08-20",
+				detailUrl:
+					"https://www.occto.or.jp/iinkai/kouikikeitou/2026/20260827_kouikikeitou_kaisai.html",
+			},
+		]);
+	});
+
+	test("配列の位置と equals・pattern の条件で絞り込む", () => {
+		const json = JSON.stringify({
+			data: {
+				items: [
+					{ name: "第1回 検討会", link: "/a.html", type: "meeting" },
+					{
+						name: "第2回 検討会（資料掲載）",
+						link: "/b.html",
+						type: "meeting",
+					},
+					{ name: "お知らせ", link: "/c.html", type: "news" },
+					{ name: "", link: "/d.html", type: "meeting" },
+				],
+			},
+		});
+
+		expect(
+			parseJsonList(
+				json,
+				{
+					type: "json",
+					url: "https://example.go.jp/api/list.json",
+					itemsPath: "data.items",
+					fields: { name: "name", url: "link" },
+					filters: [
+						{ path: "type", equals: "meeting" },
+						{ path: "name", pattern: "^第\\d+回 検討会$" },
+					],
+				},
+				"https://example.go.jp/api/list.json",
+			),
+		).toEqual([
+			{
+				name: "第1回 検討会",
+				date: "",
+				detailUrl: "https://example.go.jp/a.html",
+			},
+		]);
+	});
+
+	test("配列でない場合はエラーにする", () => {
+		expect(() =>
+			parseJsonList("{}", { ...occtoList, itemsPath: "items" }, OCCTO_LIST_URL),
+		).toThrow("JSON list is not an array: items");
+	});
+});
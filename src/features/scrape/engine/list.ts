@@ -0,0 +1,196 @@
+import * as cheerio from "cheerio";
+import { parseDate } from "./date";
+import type {
+	HtmlListDefinition,
+	JsonFilter,
+	JsonListDefinition,
+} from "./definition";
+
+// JSONの日付によくある "2026-01-15" / "2026/01/15 10:00" の形式
+const NUMERIC_DATE_PATTERN =
+	/(?<year>\d{4})[-/](?<month>\d{1,2})[-/](?<day>\d{1,2})/;
+
+/**
+ * 一覧の会議エントリー
+ */
+export interface ListEntry {
+	name: string;
+	date: string; // 一覧の日付 (YYYY-MM-DD形式。解析できない場合は元の表記、ない場合は空文字)
+	detailUrl: string;
+}
+
+/**
+ * 詳細URLを作成 (詳細URLは会議の一意キーのため、正規化せず文字列の連結で作る)
+ * - http で始まる場合はそのまま
+ * - / で始まる場合は基準のホストに付ける
+ * - それ以外は基準の末尾に / 区切りで付ける
+ * 基準が不正な場合は undefined を返す
+ */
+function resolveUrl(href: string, baseUrl: string): string | undefined {
+	if (href.startsWith("http")) {
+		return href;
+	}
+	if (!URL.canParse(baseUrl)) {
+		return undefined;
+	}
+	if (href.startsWith("/")) {
+		return `${new URL(baseUrl).origin}${href}`;
+	}
+	return `${baseUrl.replace(/\/+$/, "")}/${href}`;
+}
+
+/**
+ * 一覧のURLから相対URLの基準 (最後の / までのディレクトリ) を取得
+ */
+function getDirectoryUrl(pageUrl: string): string {
+	return pageUrl.substring(0, pageUrl.lastIndexOf("/") + 1) || pageUrl;
+}
+
+/**
+ * 詳細URLの重複を除く (最初のものを残す)
+ */
+function uniqueEntries(entries: ListEntry[]): ListEntry[] {
+	const unique = new Map<string, ListEntry>();
+	for (const entry of entries) {
+		if (!unique.has(entry.detailUrl)) {
+			unique.set(entry.detailUrl, entry);
+		}
+	}
+	return [...unique.values()];
+}
+
+/**
+ * HTMLの一覧から会議エントリーを抽出
+ * 会議名・詳細URL・日付のいずれかがない項目は除く
+ */
+export function parseHtmlList(
+	html: string,
+	definition: HtmlListDefinition,
+	pageUrl: string,
+	datePattern?: RegExp,
+): ListEntry[] {
+	const $ = cheerio.load(html);
+	const baseUrl = definition.baseUrl ?? getDirectoryUrl(pageUrl);
+	const entries: ListEntry[] = [];
+
+	$(definition.itemSelector).each((_, item) => {
+		const $item = $(item);
+		// 入れ子の項目 (リストの中のリストなど) は内側の項目で扱う
+		if ($item.find(definition.itemSelector).length > 0) {
+			return;
+		}
+
+		const dateText = (
+			definition.dateSelector
+				? $item.find(definition.dateSelector).first()
+				: $item
+		)
+			.text()
+			.trim();
+		const link = $item.find(definition.linkSelector ?? "a[href]").first();
+		const name = link.text().trim();
+		const href = link.attr("href")?.trim();
+		if (!name || !href || href.startsWith("#") || !dateText) {
+			return;
+		}
+
+		const detailUrl = resolveUrl(href, baseUrl);
+		const date = parseDate(dateText, datePattern);
+		// 項目全体から日付を探す場合、日付のない項目 (ナビゲーションなど) は会議とみなさない
+		if (!detailUrl || (!definition.dateSelector && !date)) {
+			return;
+		}
+
+		// 日付を解析できない場合は要確認とするため元の表記を残す
+		entries.push({ name, date: date || dateText, detailUrl });
+	});
+
+	return uniqueEntries(entries);
+}
+
+/**
+ * ドット区切りの位置の値を取得 (例: "data.items")
+ */
+function getPath(value: unknown, path: string | undefined): unknown {
+	if (!path) {
+		return value;
+	}
+	let current = value;
+	for (const key of path.split(".")) {
+		if (typeof current !== "object" || current === null) {
+			return undefined;
+		}
+		current = (current as Record<string, unknown>)[key];
+	}
+	return current;
+}
+
+function matchesFilter(item: unknown, filter: JsonFilter): boolean {
+	const value = getPath(item, filter.path);
+	if (filter.equals !== undefined && String(value) !== filter.equals) {
+		return false;
+	}
+	if (
+		filter.pattern !== undefined &&
+		!new RegExp(filter.pattern).test(String(value ?? ""))
+	) {
+		return false;
+	}
+	if (filter.some !== undefined) {
+		const expected = Object.entries(filter.some);
+		return (
+			Array.isArray(value) &&
+			value.some((element) =>
+				expected.every(([key, text]) => String(getPath(element, key)) === text),
+			)
+		);
+	}
+	return true;
+}
+
+/**
+ * JSONの一覧から会議エントリーを抽出
+ * 絞り込み条件にすべて一致し、会議名と詳細URLがある要素のみを対象とする
+ */
+export function parseJsonList(
+	jsonText: string,
+	definition: JsonListDefinition,
+	pageUrl: string,
+	datePattern?: RegExp,
+): ListEntry[] {
+	const items = getPath(JSON.parse(jsonText), definition.itemsPath);
+	if (!Array.isArray(items)) {
+		throw new Error(
+			`JSON list is not an array: ${definition.itemsPath || "(root)"}`,
+		);
+	}
+
+	const baseUrl = definition.baseUrl ?? getDirectoryUrl(pageUrl);
+	const { fields, filters = [] } = definition;
+	const entries: ListEntry[] = [];
+
+	for (const item of items) {
+		if (!filters.every((filter) => matchesFilter(item, filter))) {
+			continue;
+		}
+
+		const name = String(getPath(item, fields.name) ?? "").trim();
+		const href = String(getPath(item, fields.url) ?? "").trim();
+		const detailUrl = href ? resolveUrl(href, baseUrl) : undefined;
+		if (!name || !detailUrl) {
+			continue;
+		}
+
+		const dateText = fields.date
+			? String(getPath(item, fields.date) ?? "").trim()
+			: "";
+		const date =
+			parseDate(dateText, datePattern) ||
+			parseDate(dateText, NUMERIC_DATE_PATTERN) ||
+			dateText;
+
+		entries.push({ name, date, detailUrl });
+	}
+
+	return uniqueEntries(entries);
+}
@@ -0,0 +1,38 @@
+import { describe, expect, test } from "bun:test";
+import { detectCancelNotice } from "./notice";
+
+describe("detectCancelNotice", () => {
+	test.each([
+		["【開催中止】第80回 電力・ガス基本政策小委員会", "中止"],
+		["第80回 電力・ガス基本政策小委員会（中止）", "中止"],
+		["第80回 電力・ガス基本政策小委員会(延期)", "延期"],
+		["【延期】第3回 省エネルギー小委員会", "延期"],
+		["[中止のお知らせ] 第12回 調達価格等算定委員会", "中止"],
+		["〔開催延期〕第5回 水素政策小委員会", "延期"],
+		["本会合は開催を中止することとなりました。", "中止"],
+		["令和8年1月27日の開催は延期します", "延期"],
+		["同日の会議は中止いたします", "中止"],
+		["開催中止", "中止"],
+	] as const)("%s -> %s", (text, expected) => {
+		expect(detectCancelNotice(text)).toBe(expected);
+	});
+
+	test.each([
+		"第10回 出力制御の中止基準に関するワーキンググループ",
+		"議題：原子力発電所の運転延期に伴う需給への影響",
+		"2026年1月27日（火）10時00分～12時00分",
+		"第3回 延期申請の審査手続に関する検討会",
+	])("告知ではない語は無視する: %s", (text) => {
+		expect(detectCancelNotice(text)).toBe("");
+	});
+
+	test("複数のテキストのうち中止を延期より優先する", () => {
+		expect(detectCancelNotice("【延期】第1回", "開催中止")).toBe("中止");
+	});
+
+	test("見出しと日時欄の両方を確認する", () => {
+		expect(
+			detectCancelNotice("第1回 小委員会", "2026年2月1日（延期となりました）"),
+		).toBe("延期");
+	});
+});
@@ -0,0 +1,38 @@
+import type { CancelNotice } from "@/definitions/types";
+
+// 括弧で囲んだ告知: "【開催中止】" "(中止)" "[延期のお知らせ]" (全角の括弧はNFKCで半角化済み)
+const BRACKETED_PATTERN =
+	/[【([〔]\s*(?:開催)?(中止|延期)(?:となりました|します|のお知らせ)?\s*[】)\]〕]/;
+// 告知の文: "開催中止" "開催を延期" "中止します" "延期となりました" など
+const SENTENCE_PATTERN =
+	/開催を?(中止|延期)|(中止|延期)(?:します|しました|いたします|いたしました|となりました|となります|することとなりました|することといたしました)/;
+
+/**
+ * テキストから告知の種別を取得 (括弧の告知、告知の文の順に探す)
+ */
+function matchNotice(text: string): CancelNotice {
+	for (const pattern of [BRACKETED_PATTERN, SENTENCE_PATTERN]) {
+		const match = text.match(pattern);
+		const notice = match?.[1] ?? match?.[2];
+		if (notice === "中止" || notice === "延期") {
+			return notice;
+		}
+	}
+	return "";
+}
+
+/**
+ * 会議名や日時の表記から中止・延期の告知を検出
+ * 議題名などに含まれる単なる「中止」「延期」の語は告知とみなさない
+ * 例: "【開催中止】第80回 電力・ガス基本政策小委員会" -> "中止"
+ */
+export function detectCancelNotice(...texts: string[]): CancelNotice {
+	const notices = texts.map((text) => matchNotice(text.normalize("NFKC")));
+	if (notices.includes("中止")) {
+		return "中止";
+	}
+	if (notices.includes("延期")) {
+		return "延期";
+	}
+	return "";
+}
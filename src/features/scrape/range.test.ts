@@ -0,0 +1,109 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import {
+	addMonths,
+	getDefaultRange,
+	isInRange,
+	isRangeConfigured,
+	listMonths,
+	parseMonth,
+	toMonth,
+} from "./range";
+
+// JSTでは 2026-11-01 (UTCでは前月末)
+const NOW = new Date("2026-10-31T16:00:00Z");
+
+afterEach(() => {
+	delete process.env.SCRAPE_LOOKBACK_MONTHS;
+	delete process.env.SCRAPE_LOOKAHEAD_MONTHS;
+});
+
+describe("parseMonth", () => {
+	test.each(["2026-01", "2026-12"])("%s を受け付ける", (text) => {
+		expect(parseMonth(text)).toBe(text);
+	});
+
+	test.each([
+		"2026-1",
+		"2026-00",
+		"2026-13",
+		"2026/01",
+		"202601",
+		"",
+	])("%s はエラーにする", (text) => {
+		expect(() => parseMonth(text)).toThrow(`Invalid month: ${text}`);
+	});
+});
+
+describe("addMonths", () => {
+	test.each([
+		["2026-10", 2, "2026-12"],
+		["2026-11", 2, "2027-01"],
+		["2026-01", -1, "2025-12"],
+		["2026-10", 0, "2026-10"],
+	] as const)("%s + %d -> %s", (month, months, expected) => {
+		expect(addMonths(month, months)).toBe(expected);
+	});
+});
+
+describe("toMonth", () => {
+	test.each([
+		["2026-01-15", "2026-01"],
+		["2026/1/15 10:00", "2026-01"],
+		["2026年10月5日", "2026-10"],
+		["令和8年10月5日", undefined],
+		["調整中", undefined],
+		["", undefined],
+	] as const)("%s -> %s", (text, expected) => {
+		expect(toMonth(text)).toBe(expected);
+	});
+});
+
+describe("getDefaultRange", () => {
+	test("JSTの当月から2か月後までを既定とする", () => {
+		expect(getDefaultRange(NOW)).toEqual({ from: "2026-11", to: "2027-01" });
+	});
+
+	test("環境変数で前後の月数を変更できる", () => {
+		process.env.SCRAPE_LOOKBACK_MONTHS = "1";
+		process.env.SCRAPE_LOOKAHEAD_MONTHS = "0";
+
+		expect(getDefaultRange(NOW)).toEqual({ from: "2026-10", to: "2026-11" });
+	});
+
+	test("不正な値の場合は既定の月数を使う", () => {
+		process.env.SCRAPE_LOOKBACK_MONTHS = "-1";
+		process.env.SCRAPE_LOOKAHEAD_MONTHS = "abc";
+
+		expect(getDefaultRange(NOW)).toEqual({ from: "2026-11", to: "2027-01" });
+	});
+});
+
+describe("isRangeConfigured", () => {
+	test("どちらかの環境変数が設定されている場合は true を返す", () => {
+		expect(isRangeConfigured()).toBe(false);
+
+		process.env.SCRAPE_LOOKAHEAD_MONTHS = "3";
+
+		expect(isRangeConfigured()).toBe(true);
+	});
+});
+
+describe("isInRange / listMonths", () => {
+	const range = { from: "2026-11", to: "2027-02" };
+
+	test("両端の月を含む", () => {
+		expect(isInRange("2026-11", range)).toBe(true);
+		expect(isInRange("2027-02", range)).toBe(true);
+		expect(isInRange("2026-10", range)).toBe(false);
+		expect(isInRange("2027-03", range)).toBe(false);
+	});
+
+	test("期間内の月を古い順に列挙する", () => {
+		expect(listMonths(range)).toEqual([
+			"2026-11",
+			"2026-12",
+			"2027-01",
+			"2027-02",
+		]);
+	});
+});
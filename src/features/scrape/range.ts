@@ -0,0 +1,91 @@
+import type { MonthRange } from "@/definitions/types";
+import { getJstDateString } from "@/utils/time";
+
+// 既定の取得期間: 当月から2ヶ月後まで
+const DEFAULT_LOOKBACK_MONTHS = 0;
+const DEFAULT_LOOKAHEAD_MONTHS = 2;
+
+const RANGE_ENV_NAMES = ["SCRAPE_LOOKBACK_MONTHS", "SCRAPE_LOOKAHEAD_MONTHS"];
+
+const MONTH_PATTERN = /^(\d{4})-(\d{2})$/;
+
+function getMonthsFromEnv(name: string, defaultValue: number): number {
+	const value = Number.parseInt(process.env[name] ?? "", 10);
+	return Number.isNaN(value) || value < 0 ? defaultValue : value;
+}
+
+/**
+ * "YYYY-MM" 形式の月を検証して返す
+ */
+export function parseMonth(text: string): string {
+	const match = text.match(MONTH_PATTERN);
+	const month = Number.parseInt(match?.[2] ?? "", 10);
+	if (!match || month < 1 || month > 12) {
+		throw new Error(`Invalid month: ${text} (expected YYYY-MM)`);
+	}
+	return text;
+}
+
+/**
+ * "YYYY-MM" に月数を加算
+ */
+export function addMonths(month: string, months: number): string {
+	const [year, monthIndex] = month.split("-").map(Number);
+	const date = new Date(Date.UTC(year ?? 0, (monthIndex ?? 1) - 1 + months, 1));
+	return date.toISOString().substring(0, 7);
+}
+
+/**
+ * 日付のテキストから "YYYY-MM" 形式の月を抽出
+ * 例: "2026-01-15" / "2026/1/15 10:00" / "2026年1月15日" -> "2026-01"
+ * 見つからない場合は undefined を返す
+ */
+export function toMonth(text: string): string | undefined {
+	const match = text.match(/(\d{4})(?:[-/]|年)(\d{1,2})/);
+	if (!match?.[1] || !match[2]) {
+		return undefined;
+	}
+	return `${match[1]}-${match[2].padStart(2, "0")}`;
+}
+
+/**
+ * 既定の取得期間 (JSTの当月を基準に SCRAPE_LOOKBACK_MONTHS か月前から SCRAPE_LOOKAHEAD_MONTHS か月後まで)
+ */
+export function getDefaultRange(now: Date = new Date()): MonthRange {
+	const current = getJstDateString(now).substring(0, 7);
+	return {
+		from: addMonths(
+			current,
+			-getMonthsFromEnv("SCRAPE_LOOKBACK_MONTHS", DEFAULT_LOOKBACK_MONTHS),
+		),
+		to: addMonths(
+			current,
+			getMonthsFromEnv("SCRAPE_LOOKAHEAD_MONTHS", DEFAULT_LOOKAHEAD_MONTHS),
+		),
+	};
+}
+
+/**
+ * 取得期間が環境変数 (SCRAPE_LOOKBACK_MONTHS / SCRAPE_LOOKAHEAD_MONTHS) で設定されているか
+ */
+export function isRangeConfigured(): boolean {
+	return RANGE_ENV_NAMES.some((name) => Boolean(process.env[name]));
+}
+
+/**
+ * 月が期間内か判定
+ */
+export function isInRange(month: string, range: MonthRange): boolean {
+	return range.from <= month && month <= range.to;
+}
+
+/**
+ * 期間内の月を古い順に列挙
+ */
+export function listMonths(range: MonthRange): string[] {
+	const months: string[] = [];
+	for (let month = range.from; month <= range.to; month = addMonths(month, 1)) {
+		months.push(month);
+	}
+	return months;
+}
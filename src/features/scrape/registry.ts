@@ -0,0 +1,35 @@
+import type { MeetingSource } from "@/definitions/types";
+import { createDefinedSource, createInvalidSource } from "./engine";
+import { loadDefinitions } from "./engine/definition";
+
+/**
+ * 定義ファイルから取得元の一覧を読み込む
+ * 新しい取得元を追加する場合は、sources/ に定義ファイル (JSON・YAML) を追加する
+ * 不正な定義ファイルは、取得時に定義のエラーで失敗する取得元として含める
+ */
+export function loadSources(dir?: string): MeetingSource[] {
+	return loadDefinitions(dir).map((loaded) =>
+		"definition" in loaded
+			? createDefinedSource(loaded.definition)
+			: createInvalidSource(loaded),
+	);
+}
+
+/**
+ * IDで取得元を絞り込む (未指定の場合は全取得元)
+ */
+export function selectSources(
+	sources: MeetingSource[],
+	id?: string,
+): MeetingSource[] {
+	if (!id) {
+		return sources;
+	}
+
+	const source = sources.find((source) => source.id === id);
+	if (!source) {
+		const ids = sources.map((source) => source.id).join(", ");
+		throw new Error(`Unknown source: ${id} (available: ${ids})`);
+	}
+	return [source];
+}
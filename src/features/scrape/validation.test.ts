@@ -0,0 +1,101 @@
+import { describe, expect, test } from "bun:test";
+import type { MeetingData, ValidationIssue } from "@/definitions/types";
+import { summarizeIssues, validateMeetings } from "./validation";
+
+function meeting(overrides: Partial<MeetingData> = {}): MeetingData {
+	return {
+		name: "第80回 基本政策分科会",
+		date: "2026-10-27",
+		time: "10時00分～12時00分",
+		startTime: "10:00",
+		endTime: "12:00",
+		allDay: false,
+		agenda: "エネルギー基本計画について",
+		detailUrl: "https://www.meti.go.jp/shingikai/enecho/kihon_seisaku/080.html",
+		cancelNotice: "",
+		venue: "",
+		format: "",
+		livestreamUrl: "",
+		viewingDeadline: "",
+		...overrides,
+	};
+}
+
+describe("validateMeetings", () => {
+	test("問題のない会議は要確認にしない", () => {
+		expect(validateMeetings([meeting()], [])).toEqual([]);
+	});
+
+	test("開催日が解析できない、時間が自由記述、議題が空の会議を要確認とする", () => {
+		const detailUrl = meeting().detailUrl;
+		const name = meeting().name;
+
+		expect(
+			validateMeetings(
+				[
+					meeting({
+						date: "調整中",
+						time: "午前中",
+						startTime: "",
+						endTime: "",
+						allDay: true,
+						agenda: "",
+					}),
+				],
+				[],
+			),
+		).toEqual([
+			{ detailUrl, name, reason: "日付不明", detail: "調整中" },
+			{ detailUrl, name, reason: "時間が自由記述", detail: "午前中" },
+			{ detailUrl, name, reason: "議題なし", detail: "" },
+		]);
+	});
+
+	test("時間の記載がない終日の会議は自由記述としない", () => {
+		expect(
+			validateMeetings(
+				[meeting({ time: "", startTime: "", endTime: "", allDay: true })],
+				[],
+			),
+		).toEqual([]);
+	});
+
+	test("詳細ページの取得に失敗した会議は開催日のみ確認する", () => {
+		const failed: ValidationIssue = {
+			detailUrl: meeting().detailUrl,
+			name: meeting().name,
+			reason: "詳細ページ取得失敗",
+			detail: "Failed to fetch: 503",
+		};
+
+		expect(
+			validateMeetings(
+				[meeting({ date: "調整中", time: "", allDay: true, agenda: "" })],
+				[failed],
+			),
+		).toEqual([
+			failed,
+			{
+				detailUrl: meeting().detailUrl,
+				name: meeting().name,
+				reason: "日付不明",
+				detail: "調整中",
+			},
+		]);
+	});
+});
+
+describe("summarizeIssues", () => {
+	test("理由ごとの件数をまとめる", () => {
+		const issue = { detailUrl: "", name: "", detail: "" };
+
+		expect(
+			summarizeIssues([
+				{ ...issue, reason: "日付不明" },
+				{ ...issue, reason: "議題なし" },
+				{ ...issue, reason: "議題なし" },
+			]),
+		).toBe("日付不明1件、議題なし2件");
+		expect(summarizeIssues([])).toBe("なし");
+	});
+});
@@ -0,0 +1,68 @@
+import type { MeetingData, ValidationIssue } from "@/definitions/types";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * 会議データを検証し、要確認の一覧を作成
+ * 取得時に報告された問題 (詳細ページの取得失敗・スキップ) に加え、
+ * 開催日が解析できない、時間が自由記述のまま、議題が空の会議を要確認とする
+ * 詳細ページの取得に失敗した会議は時間・議題が空になるため、個別の項目は確認しない
+ */
+export function validateMeetings(
+	meetings: MeetingData[],
+	scrapeIssues: ValidationIssue[],
+): ValidationIssue[] {
+	const issues = [...scrapeIssues];
+	const failedUrls = new Set(
+		scrapeIssues
+			.filter((issue) => issue.reason === "詳細ページ取得失敗")
+			.map((issue) => issue.detailUrl),
+	);
+
+	for (const meeting of meetings) {
+		const { detailUrl, name } = meeting;
+
+		if (!DATE_PATTERN.test(meeting.date)) {
+			issues.push({
+				detailUrl,
+				name,
+				reason: "日付不明",
+				detail: meeting.date,
+			});
+		}
+
+		if (failedUrls.has(detailUrl)) {
+			continue;
+		}
+
+		// 時刻を解析できなかった場合、time には日時欄の全文が入っている
+		if (meeting.time && meeting.allDay) {
+			issues.push({
+				detailUrl,
+				name,
+				reason: "時間が自由記述",
+				detail: meeting.time,
+			});
+		}
+
+		if (!meeting.agenda) {
+			issues.push({ detailUrl, name, reason: "議題なし", detail: "" });
+		}
+	}
+
+	return issues;
+}
+
+/**
+ * 理由ごとの件数を "日付不明1件、議題なし2件" の形式で返す (0件の場合は "なし")
+ */
+export function summarizeIssues(issues: ValidationIssue[]): string {
+	const counts = new Map<string, number>();
+	for (const issue of issues) {
+		counts.set(issue.reason, (counts.get(issue.reason) ?? 0) + 1);
+	}
+	if (counts.size === 0) {
+		return "なし";
+	}
+	return [...counts].map(([reason, count]) => `${reason}${count}件`).join("、");
+}
@@ -0,0 +1,58 @@
+import type { MeetingChange } from "@/definitions/types";
+import {
+	ensureSheetExists,
+	getJstTimestamp,
+	getSpreadsheetId,
+	type SheetsClient,
+} from "./client";
+
+const CHANGE_LOG_HEADERS = [
+	"記録日時",
+	"審議会名",
+	"詳細URL",
+	"項目",
+	"変更前",
+	"変更後",
+];
+
+/**
+ * 会議データの変更内容を変更履歴シートに追記
+ * 記録に失敗しても同期処理自体は継続する
+ */
+export async function appendChangeLog(
+	sheets: SheetsClient,
+	sheetName: string,
+	changes: MeetingChange[],
+): Promise<void> {
+	try {
+		const created = await ensureSheetExists(
+			sheets,
+			sheetName,
+			CHANGE_LOG_HEADERS,
+		);
+		if (created) {
+			console.log(`Created change log sheet: ${sheetName}`);
+		}
+
+		const timestamp = getJstTimestamp();
+		await sheets.spreadsheets.values.append({
+			spreadsheetId: getSpreadsheetId(),
+			range: `${sheetName}!A:F`,
+			valueInputOption: "RAW",
+			requestBody: {
+				values: changes.map((change) => [
+					timestamp,
+					change.name,
+					change.detailUrl,
+					change.field,
+					change.before,
+					change.after,
+				]),
+			},
+		});
+
+		console.log(`Logged ${changes.length} changes to ${sheetName}`);
+	} catch (error) {
+		console.error("Failed to log changes:", error);
+	}
+}
@@ -0,0 +1,138 @@
+import { google, type sheets_v4 } from "googleapis";
+
+export type SheetsClient = ReturnType<typeof google.sheets>;
+
+export function getSpreadsheetId() {
+	if (!process.env.SPREADSHEET_ID) {
+		throw new Error("SPREADSHEET_ID is not set");
+	}
+	return process.env.SPREADSHEET_ID;
+}
+
+/**
+ * Google Sheets APIクライアントを取得
+ */
+export async function getSheetsClient(): Promise<SheetsClient> {
+	const subject = process.env.GOOGLE_IMPERSONATE_SUBJECT;
+	if (!subject) {
+		throw new Error("GOOGLE_IMPERSONATE_SUBJECT is not set");
+	}
+
+	const auth = new google.auth.GoogleAuth({
+		scopes: ["https://www.googleapis.com/auth/spreadsheets"],
+		clientOptions: { subject },
+	});
+
+	const authClient = await auth.getClient();
+	// biome-ignore lint/suspicious/noExplicitAny: allow any
+	return google.sheets({ version: "v4", auth: authClient as any });
+}
+
+/**
+ * 列番号 (0始まり) を列名 (A, B, ..., AA) に変換
+ */
+export function toColumnLetter(index: number): string {
+	let letter = "";
+	let n = index + 1;
+	while (n > 0) {
+		const remainder = (n - 1) % 26;
+		letter = String.fromCharCode(65 + remainder) + letter;
+		n = Math.floor((n - 1) / 26);
+	}
+	return letter;
+}
+
+/**
+ * 日時 (既定は現在時刻) をJSTの "YYYY-MM-DD HH:MM:SS" 形式で返す
+ */
+export function getJstTimestamp(date: Date = new Date()): string {
+	const jstTime = new Date(date.getTime() + 9 * 60 * 60 * 1000);
+	return jstTime.toISOString().replace("T", " ").substring(0, 19);
+}
+
+/**
+ * JSTの "YYYY-MM-DD HH:MM:SS" 形式の日時をISO 8601形式に変換
+ * 変換できない場合は元の文字列をそのまま返す
+ */
+export function fromJstTimestamp(timestamp: string): string {
+	const date = new Date(`${timestamp.replace(" ", "T")}+09:00`);
+	return Number.isNaN(date.getTime()) ? timestamp : date.toISOString();
+}
+
+/**
+ * シートが存在するか確認
+ */
+export async function sheetExists(
+	sheets: SheetsClient,
+	sheetName: string,
+): Promise<boolean> {
+	const response = await sheets.spreadsheets.get({
+		spreadsheetId: getSpreadsheetId(),
+	});
+
+	return (
+		response.data.sheets?.some(
+			(sheet) => sheet.properties?.title === sheetName,
+		) ?? false
+	);
+}
+
+/**
+ * シート名からシートのプロパティ (シートID・グリッドの行数・列数など) を取得
+ * シートがない場合は undefined を返す
+ */
+export async function getSheetProperties(
+	sheets: SheetsClient,
+	sheetName: string,
+): Promise<sheets_v4.Schema$SheetProperties | undefined> {
+	const response = await sheets.spreadsheets.get({
+		spreadsheetId: getSpreadsheetId(),
+	});
+
+	const sheet = response.data.sheets?.find(
+		(sheet) => sheet.properties?.title === sheetName,
+	);
+	return sheet?.properties ?? undefined;
+}
+
+/**
+ * シートが存在するか確認し、なければヘッダー行付きで作成
+ * 作成した場合は true を返す
+ */
+export async function ensureSheetExists(
+	sheets: SheetsClient,
+	sheetName: string,
+	headers: string[],
+): Promise<boolean> {
+	if (await sheetExists(sheets, sheetName)) {
+		return false;
+	}
+
+	// シートを作成
+	await sheets.spreadsheets.batchUpdate({
+		spreadsheetId: getSpreadsheetId(),
+		requestBody: {
+			requests: [
+				{
+					addSheet: {
+						properties: {
+							title: sheetName,
+						},
+					},
+				},
+			],
+		},
+	});
+
+	// ヘッダー行を追加
+	await sheets.spreadsheets.values.update({
+		spreadsheetId: getSpreadsheetId(),
+		range: `${sheetName}!A1:${toColumnLetter(headers.length - 1)}1`,
+		valueInputOption: "RAW",
+		requestBody: {
+			values: [headers],
+		},
+	});
+
+	return true;
+}
@@ -0,0 +1,72 @@
+import { describe, expect, test } from "bun:test";
+import {
+	getCell,
+	getColumnLetter,
+	getLastColumnLetter,
+	resolveColumns,
+	toSheetRow,
+} from "./columns";
+
+const REQUIRED = ["審議会名", "開催日", "ステータス", "詳細URL"];
+
+describe("resolveColumns", () => {
+	test("不足しているヘッダーを既存の列の後ろに追加する", () => {
+		const columns = resolveColumns(
+			["開催日", " 審議会名 ", "担当", ""],
+			REQUIRED,
+		);
+
+		expect(columns.headers).toEqual([
+			"開催日",
+			"審議会名",
+			"担当",
+			"",
+			"ステータス",
+			"詳細URL",
+		]);
+		expect(columns.added).toEqual(["ステータス", "詳細URL"]);
+		expect(columns.firstAddedIndex).toBe(4);
+		expect(getColumnLetter(columns, "詳細URL")).toBe("F");
+		expect(getLastColumnLetter(columns)).toBe("F");
+	});
+
+	test("同じ名前のヘッダーが複数ある場合は左側の列を使う", () => {
+		const columns = resolveColumns(
+			["審議会名", "開催日", "ステータス", "詳細URL", "開催日"],
+			REQUIRED,
+		);
+
+		expect(columns.added).toEqual([]);
+		expect(getColumnLetter(columns, "開催日")).toBe("B");
+	});
+
+	test("ない列はエラーにする", () => {
+		expect(() => getColumnLetter(resolveColumns([], REQUIRED), "備考")).toThrow(
+			"Column not found: 備考",
+		);
+	});
+});
+
+describe("getCell / toSheetRow", () => {
+	const columns = resolveColumns(
+		["ステータス", "担当", "審議会名", "開催日", "詳細URL"],
+		REQUIRED,
+	);
+
+	test("ヘッダー名で値を読み取り、省略された末尾の空セルは空文字とする", () => {
+		const row = ["予定", "山田", "第1回 検討会"];
+
+		expect(getCell(row, columns, "審議会名")).toBe("第1回 検討会");
+		expect(getCell(row, columns, "詳細URL")).toBe("");
+	});
+
+	test("ヘッダー名の列に値を書き込み、利用者が追加した列は既存の値を残す", () => {
+		expect(
+			toSheetRow(
+				{ 審議会名: "第1回 検討会", 開催日: "2026-10-27", ステータス: "予定" },
+				columns,
+				["中止の可能性", "山田", "第1回", "2026-10-20", "url1"],
+			),
+		).toEqual(["予定", "山田", "第1回 検討会", "2026-10-27", "url1"]);
+	});
+});
@@ -0,0 +1,145 @@
+import {
+	getSpreadsheetId,
+	type SheetsClient,
+	sheetExists,
+	toColumnLetter,
+} from "./client";
+
+/**
+ * ヘッダー名で列の位置を解決したシートの列構成
+ * 利用者が手で追加した列 (担当者・メモなど) もヘッダーに含まれる
+ */
+export interface SheetColumns {
+	headers: string[]; // 1行目のヘッダー (不足していた列を末尾に追加済み)
+	added: string[]; // 不足していたため末尾に追加したヘッダー
+	firstAddedIndex: number; // 追加したヘッダーの最初の列位置
+	indexes: Map<string, number>; // ヘッダー名と列位置 (0始まり)
+}
+
+/**
+ * シートの1行目から列構成を解決する
+ * required のうちシートにないヘッダーは既存の列の後ろに追加する (既存の列は移動しない)
+ * 同じ名前のヘッダーが複数ある場合は左側の列を使う
+ */
+export function resolveColumns(
+	headerRow: string[],
+	required: readonly string[],
+): SheetColumns {
+	const headers = headerRow.map((header) => (header ?? "").trim());
+	const added = required.filter((header) => !headers.includes(header));
+	const firstAddedIndex = headers.length;
+	headers.push(...added);
+
+	const indexes = new Map<string, number>();
+	headers.forEach((header, index) => {
+		if (header && !indexes.has(header)) {
+			indexes.set(header, index);
+		}
+	});
+
+	return { headers, added, firstAddedIndex, indexes };
+}
+
+/**
+ * ヘッダー名から列位置を取得
+ */
+export function getColumnIndex(columns: SheetColumns, header: string): number {
+	const index = columns.indexes.get(header);
+	if (index === undefined) {
+		throw new Error(`Column not found: ${header}`);
+	}
+	return index;
+}
+
+/**
+ * ヘッダー名から列名 (A, B, ...) を取得
+ */
+export function getColumnLetter(columns: SheetColumns, header: string): string {
+	return toColumnLetter(getColumnIndex(columns, header));
+}
+
+/**
+ * 列構成の最終列の列名
+ */
+export function getLastColumnLetter(columns: SheetColumns): string {
+	return toColumnLetter(columns.headers.length - 1);
+}
+
+/**
+ * 行データからヘッダー名の列の値を取得 (Sheets APIが省略した末尾の空セルは空文字)
+ */
+export function getCell(
+	row: string[],
+	columns: SheetColumns,
+	header: string,
+): string {
+	return row[getColumnIndex(columns, header)] ?? "";
+}
+
+/**
+ * ヘッダー名と値の組から列構成の幅の行データを作成
+ * values にない列 (利用者が追加した列など) は baseRow の値を引き継ぐ
+ */
+export function toSheetRow(
+	values: Record<string, string>,
+	columns: SheetColumns,
+	baseRow: string[] = [],
+): string[] {
+	const row = columns.headers.map((_, index) => baseRow[index] ?? "");
+	for (const [header, value] of Object.entries(values)) {
+		row[getColumnIndex(columns, header)] = value;
+	}
+	return row;
+}
+
+/**
+ * シートの列構成と行データ (ヘッダー行を除く)
+ */
+export interface SheetData {
+	columns: SheetColumns;
+	rows: string[][];
+}
+
+/**
+ * シートを読み込み、ヘッダー名で列構成を解決する
+ * シートがない場合は空の行データを返す
+ */
+export async function readSheetData(
+	sheets: SheetsClient,
+	sheetName: string,
+	required: readonly string[],
+): Promise<SheetData> {
+	if (!(await sheetExists(sheets, sheetName))) {
+		return { columns: resolveColumns([], required), rows: [] };
+	}
+
+	const response = await sheets.spreadsheets.values.get({
+		spreadsheetId: getSpreadsheetId(),
+		range: sheetName,
+	});
+	const [headerRow = [], ...rows] = (response.data.values ?? []) as string[][];
+	return { columns: resolveColumns(headerRow, required), rows };
+}
+
+/**
+ * 列構成の解決時に不足していたヘッダーをシートの1行目に書き込む
+ */
+export async function addMissingHeaders(
+	sheets: SheetsClient,
+	sheetName: string,
+	columns: SheetColumns,
+): Promise<void> {
+	if (columns.added.length === 0) {
+		return;
+	}
+
+	await sheets.spreadsheets.values.update({
+		spreadsheetId: getSpreadsheetId(),
+		range: `${sheetName}!${toColumnLetter(columns.firstAddedIndex)}1:${getLastColumnLetter(columns)}1`,
+		valueInputOption: "RAW",
+		requestBody: {
+			values: [columns.added],
+		},
+	});
+	console.log(`Added columns to ${sheetName}: ${columns.added.join(", ")}`);
+}
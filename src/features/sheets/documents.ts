@@ -0,0 +1,113 @@
+import type { DocumentEntry, MeetingDocuments } from "@/definitions/types";
+import {
+	ensureSheetExists,
+	getJstTimestamp,
+	getSheetsClient,
+	getSpreadsheetId,
+	type SheetsClient,
+	sheetExists,
+} from "./client";
+import { recordDocumentAppearance } from "./editor";
+
+const DOCUMENT_SHEET_HEADERS = [
+	"初回確認日時",
+	"審議会名",
+	"開催日",
+	"詳細URL",
+	"種別",
+	"タイトル",
+	"資料URL",
+	"形式",
+];
+
+/**
+ * 資料一覧シートに記録済みの資料のキー (詳細URLと資料URLの組) を取得
+ * シートがまだない場合は空とする (読み込みに失敗した場合は重複して追加しないようエラーとする)
+ */
+async function getExistingKeys(
+	sheets: SheetsClient,
+	sheetName: string,
+): Promise<Set<string>> {
+	if (!(await sheetExists(sheets, sheetName))) {
+		return new Set();
+	}
+
+	const response = await sheets.spreadsheets.values.get({
+		spreadsheetId: getSpreadsheetId(),
+		range: `${sheetName}!A2:H`, // ヘッダー行をスキップ
+	});
+	const rows: string[][] = response.data.values || [];
+	return new Set(rows.map((row) => `${row[3] ?? ""}\t${row[6] ?? ""}`));
+}
+
+/**
+ * 会議ごとの資料を資料一覧シートに追加
+ * 詳細URLと資料URLの組をキーに、未記録の資料のみ追加する
+ * 資料・議事録を初めて確認した日はメインデータシートにも記録する
+ * dryRun の場合は差分の計算のみ行い、シートには書き込まない
+ */
+export async function upsertDocuments(
+	meetings: MeetingDocuments[],
+	documentSheetName: string,
+	mainSheetName: string,
+	options: { dryRun?: boolean } = {},
+): Promise<DocumentEntry[]> {
+	const sheets = await getSheetsClient();
+	const existingKeys = await getExistingKeys(sheets, documentSheetName);
+
+	const entries: DocumentEntry[] = [];
+	const rows: string[][] = [];
+	const timestamp = getJstTimestamp();
+
+	for (const meeting of meetings) {
+		for (const document of meeting.documents) {
+			const key = `${meeting.detailUrl}\t${document.url}`;
+			if (existingKeys.has(key)) {
+				continue;
+			}
+			existingKeys.add(key);
+
+			entries.push({
+				...document,
+				detailUrl: meeting.detailUrl,
+				name: meeting.name,
+			});
+			rows.push([
+				timestamp,
+				meeting.name,
+				meeting.date,
+				meeting.detailUrl,
+				document.kind,
+				document.title,
+				document.url,
+				document.fileType,
+			]);
+		}
+	}
+
+	if (options.dryRun || rows.length === 0) {
+		return entries;
+	}
+
+	const created = await ensureSheetExists(
+		sheets,
+		documentSheetName,
+		DOCUMENT_SHEET_HEADERS,
+	);
+	if (created) {
+		console.log(`Created document sheet: ${documentSheetName}`);
+	}
+
+	await sheets.spreadsheets.values.append({
+		spreadsheetId: getSpreadsheetId(),
+		range: `${documentSheetName}!A:H`,
+		valueInputOption: "RAW",
+		requestBody: {
+			values: rows,
+		},
+	});
+
+	await recordDocumentAppearance(sheets, mainSheetName, entries);
+
+	return entries;
+}
@@ -1,257 +1,487 @@
-import { google } from "googleapis";
-import type { MeetingData } from "@/definitions/types";
+import type {
+	DocumentEntry,
+	MeetingChange,
+	MeetingData,
+	MeetingFormat,
+	MeetingStatus,
+	UpsertResult,
+} from "@/definitions/types";
+import { parseCommitteeName } from "@/features/scrape/committee";
+import { resolveStatus } from "@/features/storage/status";
+import { getJstDateString } from "@/utils/time";
+import { appendChangeLog } from "./changelog";
+import {
+	ensureSheetExists,
+	getJstTimestamp,
+	getSheetsClient,
+	getSpreadsheetId,
+	type SheetsClient,
+} from "./client";
+import {
+	addMissingHeaders,
+	getCell,
+	getColumnLetter,
+	getLastColumnLetter,
+	readSheetData,
+	type SheetColumns,
+	type SheetData,
+	toSheetRow,
+} from "./columns";
 
-function getSpreadsheetId() {
-	if (!process.env.SPREADSHEET_ID) {
-		throw new Error("SPREADSHEET_ID is not set");
-	}
-	return process.env.SPREADSHEET_ID;
-}
+// メインデータシートのヘッダー
+// 列はヘッダー名で探すため、シート上で列を並べ替えたり担当者・メモなどの列を追加したりしてもよい
+// シートにないヘッダーは既存の列の後ろに追加する
+const MAIN_SHEET_HEADERS = [
+	"審議会名",
+	"開催日",
+	"開催時間",
+	"議題",
+	"詳細URL",
+	"開始時刻",
+	"終了時刻",
+	"ステータス",
+	"関連タグ",
+	"資料掲載日",
+	"議事録掲載日",
+	"場所",
+	"開催形式",
+	"配信URL",
+	"傍聴申込締切",
+	"親審議会",
+	"分科会・小委員会",
+	"ワーキンググループ",
+	"回次",
+	"合同会議",
+	// 行を追加・更新した日時 (今回の同期で変更された行の書式に使う)
+	"最終更新日時",
+] as const;
 
-/**
- * Google Sheets APIクライアントを取得
- */
-async function getSheetsClient() {
-	const subject = process.env.GOOGLE_IMPERSONATE_SUBJECT;
-	if (!subject) {
-		throw new Error("GOOGLE_IMPERSONATE_SUBJECT is not set");
-	}
+type MainSheetHeader = (typeof MAIN_SHEET_HEADERS)[number];
 
-	const auth = new google.auth.GoogleAuth({
-		scopes: ["https://www.googleapis.com/auth/spreadsheets"],
-		clientOptions: { subject },
-	});
+// 会議データから書き込む列 (資料掲載日・議事録掲載日は資料の記録時に書き込む)
+type MeetingRowValues = Record<
+	Exclude<MainSheetHeader, "資料掲載日" | "議事録掲載日" | "最終更新日時">,
+	string
+>;
 
-	const authClient = await auth.getClient();
-	// biome-ignore lint/suspicious/noExplicitAny: allow any
-	return google.sheets({ version: "v4", auth: authClient as any });
-}
+// 関連タグの区切り文字
+export const TAG_SEPARATOR = ", ";
+
+// 変更履歴に記録する項目 (メインデータシートのヘッダー名と同じ)
+const TRACKED_FIELDS: Array<MeetingChange["field"]> = [
+	"審議会名",
+	"開催日",
+	"開催時間",
+	"議題",
+	"ステータス",
+];
 
 /**
- * 既存データを取得
+ * メインデータシートを読み込む
+ * シートがない場合は空の行データを返す
  */
-async function getExistingData(
-	sheets: ReturnType<typeof google.sheets>,
+export function readMainSheet(
+	sheets: SheetsClient,
 	sheetName: string,
-): Promise<string[][]> {
-	try {
-		const response = await sheets.spreadsheets.values.get({
-			spreadsheetId: getSpreadsheetId(),
-			range: `${sheetName}!A2:E`, // ヘッダー行をスキップ
-		});
-
-		return response.data.values || [];
-	} catch (error) {
-		console.error("Failed to get existing data:", error);
-		return [];
-	}
+): Promise<SheetData> {
+	return readSheetData(sheets, sheetName, MAIN_SHEET_HEADERS);
 }
 
 /**
  * メインデータシートが存在するか確認し、なければ作成
+ * 既存シートに不足しているヘッダーは既存の列の後ろに追加する
  */
-async function ensureMainSheetExists(
-	sheets: ReturnType<typeof google.sheets>,
+async function ensureMainSheet(
+	sheets: SheetsClient,
 	sheetName: string,
-): Promise<void> {
-	try {
-		const response = await sheets.spreadsheets.get({
-			spreadsheetId: getSpreadsheetId(),
-		});
+): Promise<SheetData> {
+	const created = await ensureSheetExists(sheets, sheetName, [
+		...MAIN_SHEET_HEADERS,
+	]);
+	if (created) {
+		console.log(`Created main data sheet: ${sheetName}`);
+	}
 
-		const sheetExists = response.data.sheets?.some(
-			(sheet) => sheet.properties?.title === sheetName,
-		);
+	const data = await readMainSheet(sheets, sheetName);
+	await addMissingHeaders(sheets, sheetName, data.columns);
+	return data;
+}
 
-		if (!sheetExists) {
-			// シートを作成
-			await sheets.spreadsheets.batchUpdate({
-				spreadsheetId: getSpreadsheetId(),
-				requestBody: {
-					requests: [
-						{
-							addSheet: {
-								properties: {
-									title: sheetName,
-								},
-							},
-						},
-					],
-				},
-			});
+/**
+ * 会議データをメインデータシートの列ごとの値に変換
+ * 親審議会以降の列は会議名から解析する
+ */
+function toRowValues(
+	meeting: MeetingData,
+	status: MeetingStatus,
+): MeetingRowValues {
+	const committee = parseCommitteeName(meeting.name);
+	return {
+		審議会名: meeting.name,
+		開催日: meeting.date,
+		開催時間: meeting.time,
+		議題: meeting.agenda,
+		詳細URL: meeting.detailUrl,
+		開始時刻: meeting.startTime,
+		終了時刻: meeting.endTime,
+		ステータス: status,
+		関連タグ: (meeting.tags ?? []).join(TAG_SEPARATOR),
+		場所: meeting.venue,
+		開催形式: meeting.format,
+		配信URL: meeting.livestreamUrl,
+		傍聴申込締切: meeting.viewingDeadline,
+		親審議会: committee.council,
+		"分科会・小委員会": committee.subcommittees,
+		ワーキンググループ: committee.workingGroup,
+		回次: committee.session,
+		合同会議: committee.joint ? "合同" : "",
+	};
+}
 
-			// ヘッダー行を追加
-			await sheets.spreadsheets.values.update({
-				spreadsheetId: getSpreadsheetId(),
-				range: `${sheetName}!A1:E1`,
-				valueInputOption: "RAW",
-				requestBody: {
-					values: [["審議会名", "開催日", "開催時間", "議題", "詳細URL"]],
-				},
-			});
+/**
+ * 既存行と新しい値を比較し、値が変わった列のヘッダーを返す
+ * Sheets APIは末尾の空セルを省略して返すため、空文字として比較する
+ */
+function findChangedHeaders(
+	existingRow: string[],
+	values: MeetingRowValues,
+	columns: SheetColumns,
+): Array<keyof MeetingRowValues> {
+	return (Object.keys(values) as Array<keyof MeetingRowValues>).filter(
+		(header) => getCell(existingRow, columns, header) !== values[header],
+	);
+}
 
-			console.log(`Created main data sheet: ${sheetName}`);
-		}
-	} catch (error) {
-		console.error("Failed to ensure main sheet exists:", error);
-	}
+/**
+ * 値が変わった列のうち、変更履歴に記録する項目の差分を抽出
+ */
+function diffRow(
+	meeting: MeetingData,
+	existingRow: string[],
+	values: MeetingRowValues,
+	columns: SheetColumns,
+	changedHeaders: Array<keyof MeetingRowValues>,
+): MeetingChange[] {
+	return TRACKED_FIELDS.filter((field) => changedHeaders.includes(field)).map(
+		(field) => ({
+			detailUrl: meeting.detailUrl,
+			name: meeting.name,
+			field,
+			before: getCell(existingRow, columns, field),
+			after: values[field],
+		}),
+	);
 }
 
 /**
  * 会議データをスプレッドシートに更新/挿入
- * URLをキーに既存データを更新、新規の場合は追加
+ * 列はヘッダー名で探し、URLをキーに既存データと比較して値が変わったセルのみ更新、新規の場合は行を追加
+ * 会議データにない列 (資料掲載日や利用者が追加した担当者・メモなど) には書き込まない
+ * 更新は1回のbatchUpdate、追加は1回のappendにまとめて送信する
+ * 更新した行の変更内容は変更履歴シートに記録する
+ * 今回の取得結果に含まれない既存行もステータス列のみ再判定する
+ * 詳細ページの取得に失敗・スキップした会議 (unresolvedUrls) は一覧に掲載中とみなし、既存行を変更しない
+ * 過去シートに移動済みの会議は追加・更新しない (詳細URLを両シートで重複させないため)
+ * dryRun の場合は既存データの読み込みと差分の計算のみ行い、シートには書き込まない
  */
 export async function upsertMeetings(
 	meetings: MeetingData[],
 	sheetName: string,
-): Promise<{
-	updated: number;
-	inserted: number;
-}> {
+	changeLogSheetName: string,
+	archiveSheetName: string,
+	options: {
+		dryRun?: boolean;
+		partial?: boolean;
+		unresolvedUrls?: string[];
+	} = {},
+): Promise<UpsertResult> {
 	const sheets = await getSheetsClient();
 
-	// メインデータシートの存在確認
-	await ensureMainSheetExists(sheets, sheetName);
+	// メインデータシートの存在確認と既存データの取得
+	const { columns, rows: existingData } = options.dryRun
+		? await readMainSheet(sheets, sheetName)
+		: await ensureMainSheet(sheets, sheetName);
+	const statusColumn = getColumnLetter(columns, "ステータス");
+	const updatedAtColumn = getColumnLetter(columns, "最終更新日時");
+	const updatedAt = getJstTimestamp();
 
-	// 既存データを取得
-	const existingData = await getExistingData(sheets, sheetName);
+	// 過去シートに移動済みの会議の詳細URL
+	const archive = await readMainSheet(sheets, archiveSheetName);
+	const archivedUrls = new Set(
+		archive.rows.map((row) => getCell(row, archive.columns, "詳細URL")),
+	);
 
 	// URLをキーにしたマップを作成 (行番号を保持)
 	const urlToRowIndex = new Map<string, number>();
 	existingData.forEach((row, index) => {
-		const url = row[4]; // 詳細URL列
+		const url = getCell(row, columns, "詳細URL");
 		if (url) {
 			urlToRowIndex.set(url, index + 2); // +2 はヘッダー行とインデックスの調整
 		}
 	});
 
+	const updates: Array<{ range: string; values: string[][] }> = [];
+	const inserts: string[][] = [];
+	const insertedMeetings: MeetingData[] = [];
+	const changes: MeetingChange[] = [];
+	const processedUrls = new Set<string>();
+	const unresolvedUrls = new Set(options.unresolvedUrls);
 	let updated = 0;
-	let inserted = 0;
+	let unchanged = 0;
+	const today = getJstDateString();
 
-	// 各会議データを処理
+	// 各会議データを差分判定
 	for (const meeting of meetings) {
-		const rowData = [
-			meeting.name,
-			meeting.date,
-			meeting.time,
-			meeting.agenda,
-			meeting.detailUrl,
-		];
+		// 同じ実行内で重複したURLは最初のものだけを扱う
+		if (processedUrls.has(meeting.detailUrl)) {
+			continue;
+		}
+		processedUrls.add(meeting.detailUrl);
 
 		const existingRowIndex = urlToRowIndex.get(meeting.detailUrl);
+		if (existingRowIndex === undefined && archivedUrls.has(meeting.detailUrl)) {
+			unchanged++;
+			console.log(`Skipping archived meeting: ${meeting.name}`);
+			continue;
+		}
+		const existingRow =
+			existingRowIndex === undefined
+				? undefined
+				: existingData[existingRowIndex - 2];
+		// 詳細ページの取得に失敗した会議は空の値で上書きしない
+		if (existingRow && unresolvedUrls.has(meeting.detailUrl)) {
+			unchanged++;
+			continue;
+		}
 
-		if (existingRowIndex !== undefined) {
-			// 既存データを更新
-			await sheets.spreadsheets.values.update({
-				spreadsheetId: getSpreadsheetId(),
-				range: `${sheetName}!A${existingRowIndex}:E${existingRowIndex}`,
-				valueInputOption: "RAW",
-				requestBody: {
-					values: [rowData],
-				},
-			});
-			updated++;
-			console.log(`Updated row ${existingRowIndex}: ${meeting.name}`);
-		} else {
-			// 新規データを追加
-			await sheets.spreadsheets.values.append({
-				spreadsheetId: getSpreadsheetId(),
-				range: `${sheetName}!A:E`,
-				valueInputOption: "RAW",
-				requestBody: {
-					values: [rowData],
-				},
+		const status = resolveStatus({
+			date: meeting.date,
+			listed: true,
+			cancelNotice: meeting.cancelNotice,
+			previousStatus: existingRow
+				? getCell(existingRow, columns, "ステータス")
+				: undefined,
+			today,
+		});
+		const values = toRowValues(meeting, status);
+
+		if (existingRowIndex === undefined || existingRow === undefined) {
+			inserts.push(toSheetRow({ ...values, 最終更新日時: updatedAt }, columns));
+			insertedMeetings.push(meeting);
+			console.log(`Inserting new row: ${meeting.name}`);
+			continue;
+		}
+
+		const changedHeaders = findChangedHeaders(existingRow, values, columns);
+		if (changedHeaders.length === 0) {
+			unchanged++;
+			continue;
+		}
+
+		changes.push(
+			...diffRow(meeting, existingRow, values, columns, changedHeaders),
+		);
+		for (const header of changedHeaders) {
+			updates.push({
+				range: `${sheetName}!${getColumnLetter(columns, header)}${existingRowIndex}`,
+				values: [[values[header]]],
 			});
-			inserted++;
-			console.log(`Inserted new row: ${meeting.name}`);
 		}
+		updates.push({
+			range: `${sheetName}!${updatedAtColumn}${existingRowIndex}`,
+			values: [[updatedAt]],
+		});
+		updated++;
+		console.log(`Updating row ${existingRowIndex}: ${meeting.name}`);
 	}
 
-	return { updated, inserted };
-}
+	// 今回の取得結果に含まれない既存行のステータスを再判定
+	// (一部の期間のみ取得した場合は一覧から消えたとは判断できないため行わない)
+	// 詳細ページの取得に失敗・スキップした会議は一覧に掲載中とみなす
+	existingData.forEach((row, index) => {
+		const url = getCell(row, columns, "詳細URL");
+		if (
+			!url ||
+			processedUrls.has(url) ||
+			unresolvedUrls.has(url) ||
+			options.partial
+		) {
+			return;
+		}
 
-/**
- * 実行履歴シートが存在するか確認し、なければ作成
- */
-async function ensureHistorySheetExists(
-	sheets: ReturnType<typeof google.sheets>,
-	sheetName: string,
-): Promise<void> {
-	try {
-		const response = await sheets.spreadsheets.get({
-			spreadsheetId: getSpreadsheetId(),
+		const previousStatus = getCell(row, columns, "ステータス");
+		const status = resolveStatus({
+			date: getCell(row, columns, "開催日"),
+			listed: false,
+			cancelNotice: "",
+			previousStatus,
+			today,
 		});
+		if (status === previousStatus) {
+			return;
+		}
 
-		const sheetExists = response.data.sheets?.some(
-			(sheet) => sheet.properties?.title === sheetName,
-		);
+		const rowIndex = index + 2;
+		updates.push({
+			range: `${sheetName}!${statusColumn}${rowIndex}`,
+			values: [[status]],
+		});
+		updates.push({
+			range: `${sheetName}!${updatedAtColumn}${rowIndex}`,
+			values: [[updatedAt]],
+		});
+		updated++;
+		changes.push({
+			detailUrl: url,
+			name: getCell(row, columns, "審議会名"),
+			field: "ステータス",
+			before: previousStatus,
+			after: status,
+		});
+		console.log(`Updating status of row ${rowIndex}: ${status}`);
+	});
 
-		if (!sheetExists) {
-			// シートを作成
-			await sheets.spreadsheets.batchUpdate({
-				spreadsheetId: getSpreadsheetId(),
-				requestBody: {
-					requests: [
-						{
-							addSheet: {
-								properties: {
-									title: sheetName,
-								},
-							},
-						},
-					],
-				},
-			});
+	if (options.dryRun) {
+		return {
+			updated,
+			inserted: inserts.length,
+			unchanged,
+			changes,
+			insertedMeetings,
+		};
+	}
 
-			// ヘッダー行を追加
-			await sheets.spreadsheets.values.update({
-				spreadsheetId: getSpreadsheetId(),
-				range: `${sheetName}!A1:D1`,
+	// 既存データをまとめて更新
+	if (updates.length > 0) {
+		await sheets.spreadsheets.values.batchUpdate({
+			spreadsheetId: getSpreadsheetId(),
+			requestBody: {
 				valueInputOption: "RAW",
-				requestBody: {
-					values: [["実行日時", "ステータス", "処理件数", "エラー詳細"]],
-				},
-			});
+				data: updates,
+			},
+		});
+	}
 
-			console.log("Created execution history sheet");
-		}
-	} catch (error) {
-		console.error("Failed to ensure history sheet exists:", error);
+	// 新規データをまとめて追加
+	if (inserts.length > 0) {
+		await sheets.spreadsheets.values.append({
+			spreadsheetId: getSpreadsheetId(),
+			range: `${sheetName}!A:${getLastColumnLetter(columns)}`,
+			valueInputOption: "RAW",
+			requestBody: {
+				values: inserts,
+			},
+		});
 	}
+
+	// 変更履歴を記録
+	if (changes.length > 0) {
+		await appendChangeLog(sheets, changeLogSheetName, changes);
+	}
+
+	return {
+		updated,
+		inserted: inserts.length,
+		unchanged,
+		changes,
+		insertedMeetings,
+	};
 }
 
 /**
- * 実行履歴を記録
+ * 資料・議事録を初めて確認した日をメインデータシートに記録
+ * すでに記録済みのセルは上書きしない
  */
-export async function logExecution(
+export async function recordDocumentAppearance(
+	sheets: SheetsClient,
 	sheetName: string,
-	status: "成功" | "失敗",
-	processedCount: string,
-	errorDetail: string = "-",
+	entries: DocumentEntry[],
 ): Promise<void> {
-	try {
-		const sheets = await getSheetsClient();
+	const { columns, rows } = await readMainSheet(sheets, sheetName);
+	const today = getJstDateString();
+	const updates: Array<{ range: string; values: string[][] }> = [];
 
-		// 実行履歴シートの存在確認
-		await ensureHistorySheetExists(sheets, sheetName);
+	rows.forEach((row, index) => {
+		const url = getCell(row, columns, "詳細URL");
+		const kinds = new Set(
+			entries
+				.filter((entry) => entry.detailUrl === url)
+				.map((entry) => entry.kind),
+		);
+		if (!url || kinds.size === 0) {
+			return;
+		}
 
-		// 現在時刻 (JST)
-		const now = new Date();
-		const jstTime = new Date(now.getTime() + 9 * 60 * 60 * 1000);
-		const timestamp = jstTime.toISOString().replace("T", " ").substring(0, 19);
+		const rowIndex = index + 2;
+		if (kinds.has("配布資料") && !getCell(row, columns, "資料掲載日")) {
+			updates.push({
+				range: `${sheetName}!${getColumnLetter(columns, "資料掲載日")}${rowIndex}`,
+				values: [[today]],
+			});
+		}
+		if (
+			(kinds.has("議事要旨") || kinds.has("議事録")) &&
+			!getCell(row, columns, "議事録掲載日")
+		) {
+			updates.push({
+				range: `${sheetName}!${getColumnLetter(columns, "議事録掲載日")}${rowIndex}`,
+				values: [[today]],
+			});
+		}
+	});
 
-		// 履歴を追加
-		await sheets.spreadsheets.values.append({
+	if (updates.length > 0) {
+		await sheets.spreadsheets.values.batchUpdate({
 			spreadsheetId: getSpreadsheetId(),
-			range: `${sheetName}!A:D`,
-			valueInputOption: "RAW",
 			requestBody: {
-				values: [[timestamp, status, processedCount, errorDetail]],
+				valueInputOption: "RAW",
+				data: updates,
 			},
 		});
-
-		console.log(`Logged execution: ${status} - ${processedCount}`);
-	} catch (error) {
-		console.error("Failed to log execution:", error);
 	}
 }
+
+/**
+ * シートに保存済みの会議データとステータスを取得
+ * 中止・延期の告知はシートに保存していないため空文字とする
+ */
+export async function listMeetingRecords(
+	sheetName: string,
+): Promise<Array<{ meeting: MeetingData; status: string }>> {
+	const sheets = await getSheetsClient();
+	const { columns, rows } = await readMainSheet(sheets, sheetName);
+
+	return rows
+		.filter((row) => getCell(row, columns, "詳細URL"))
+		.map((row) => {
+			const cell = (header: MainSheetHeader) => getCell(row, columns, header);
+			const startTime = cell("開始時刻");
+			const tags = cell("関連タグ");
+			return {
+				meeting: {
+					name: cell("審議会名"),
+					date: cell("開催日"),
+					time: cell("開催時間"),
+					agenda: cell("議題"),
+					detailUrl: cell("詳細URL"),
+					startTime,
+					endTime: cell("終了時刻"),
+					allDay: !startTime,
+					cancelNotice: "",
+					tags: tags ? tags.split(TAG_SEPARATOR) : [],
+					venue: cell("場所"),
+					format: cell("開催形式") as MeetingFormat,
+					livestreamUrl: cell("配信URL"),
+					viewingDeadline: cell("傍聴申込締切"),
+				},
+				status: cell("ステータス"),
+			};
+		});
+}
+
+/**
+ * シートに保存済みの会議データを取得
+ */
+export async function listMeetings(sheetName: string): Promise<MeetingData[]> {
+	return (await listMeetingRecords(sheetName)).map(({ meeting }) => meeting);
+}
@@ -0,0 +1,86 @@
+import { describe, expect, test } from "bun:test";
+import type { ExecutionRecord } from "@/definitions/types";
+import { resolveColumns } from "./columns";
+import { toExecutionRecord, toHistoryRow } from "./history";
+
+const record: ExecutionRecord = {
+	runId: "run-1",
+	sourceId: "",
+	startedAt: "2026-10-19T00:00:00.000Z",
+	finishedAt: "2026-10-19T00:01:00.000Z",
+	durationMs: 60000,
+	status: "失敗",
+	scraped: 3,
+	inserted: 1,
+	updated: 1,
+	unchanged: 1,
+	skipped: 0,
+	documents: 2,
+	issues: 1,
+	httpRequests: 5,
+	httpRetries: 1,
+	httpErrors: 1,
+	errorDetail: "Error: HTTP 503",
+};
+
+// 実行履歴シートのヘッダー (列の順序は作成時のもの)
+const HEADERS = [
+	"実行日時",
+	"ステータス",
+	"処理件数",
+	"エラー詳細",
+	"実行ID",
+	"終了日時",
+	"所要時間(秒)",
+	"取得",
+	"新規",
+	"更新",
+	"変更なし",
+	"スキップ",
+	"新規資料",
+	"要確認",
+	"HTTPリクエスト",
+	"HTTPリトライ",
+	"HTTPエラー",
+];
+
+describe("toHistoryRow / toExecutionRecord", () => {
+	test("利用者が列を並べ替え・追加したシートでもヘッダー名で読み書きする", () => {
+		const columns = resolveColumns(
+			["実行ID", "実行日時", "メモ", "ステータス", "エラー詳細", "終了日時"],
+			HEADERS,
+		);
+
+		const row = toHistoryRow(record, columns);
+
+		expect(row.slice(0, 7)).toEqual([
+			"run-1",
+			"2026-10-19 09:00:00",
+			"",
+			"失敗",
+			"Error: HTTP 503",
+			"2026-10-19 09:01:00",
+			"取得3件、新規1件、更新1件、変更なし1件、スキップ0件、新規資料2件、要確認1件",
+		]);
+		expect(toExecutionRecord(row.map(String), columns)).toEqual(record);
+	});
+
+	test("列を追加する前の行は追加した列を空 (件数は0) として読み取る", () => {
+		const columns = resolveColumns(HEADERS.slice(0, 4), HEADERS);
+
+		expect(
+			toExecutionRecord(
+				["2026-10-19 09:00:00", "成功", "取得3件", "-"],
+				columns,
+			),
+		).toMatchObject({
+			runId: "",
+			startedAt: "2026-10-19T00:00:00.000Z",
+			finishedAt: "",
+			durationMs: 0,
+			status: "成功",
+			scraped: 0,
+			errorDetail: "",
+		});
+	});
+});
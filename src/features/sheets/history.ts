@@ -0,0 +1,199 @@
+import type { ExecutionRecord } from "@/definitions/types";
+import { formatProcessedCount } from "@/features/history";
+import {
+	ensureSheetExists,
+	fromJstTimestamp,
+	getJstTimestamp,
+	getSheetsClient,
+	getSpreadsheetId,
+	type SheetsClient,
+} from "./client";
+import {
+	addMissingHeaders,
+	getCell,
+	getColumnIndex,
+	getLastColumnLetter,
+	readSheetData,
+	resolveColumns,
+	type SheetColumns,
+} from "./columns";
+
+// 実行履歴シートのヘッダー
+// 列はヘッダー名で読み書きするため、既存シートにない列は末尾に追加される
+const HISTORY_SHEET_HEADERS = [
+	"実行日時",
+	"ステータス",
+	"処理件数",
+	"エラー詳細",
+	"実行ID",
+	"終了日時",
+	"所要時間(秒)",
+	"取得",
+	"新規",
+	"更新",
+	"変更なし",
+	"スキップ",
+	"新規資料",
+	"要確認",
+	"HTTPリクエスト",
+	"HTTPリトライ",
+	"HTTPエラー",
+];
+
+// セルに書き込めるエラー詳細の最大文字数 (シートのセルの上限は50,000文字)
+const MAX_ERROR_DETAIL_LENGTH = 10_000;
+
+/**
+ * 実行履歴シートが存在するか確認し、なければ作成して列構成を返す
+ * 既存シートのヘッダーは書き換えず、不足している列のみ末尾に追加する
+ */
+async function ensureHistorySheetExists(
+	sheets: SheetsClient,
+	sheetName: string,
+): Promise<SheetColumns> {
+	const created = await ensureSheetExists(
+		sheets,
+		sheetName,
+		HISTORY_SHEET_HEADERS,
+	);
+	if (created) {
+		console.log("Created execution history sheet");
+		return resolveColumns(HISTORY_SHEET_HEADERS, HISTORY_SHEET_HEADERS);
+	}
+
+	const response = await sheets.spreadsheets.values.get({
+		spreadsheetId: getSpreadsheetId(),
+		range: `${sheetName}!1:1`,
+	});
+	const columns = resolveColumns(
+		(response.data.values?.[0] ?? []) as string[],
+		HISTORY_SHEET_HEADERS,
+	);
+	await addMissingHeaders(sheets, sheetName, columns);
+	return columns;
+}
+
+function toNumber(value: string | undefined): number {
+	const parsed = Number(value);
+	return Number.isNaN(parsed) ? 0 : parsed;
+}
+
+/**
+ * 実行履歴をシートの列構成の幅の行データにする (件数は数値のまま書き込む)
+ * 利用者が追加した列は空とする
+ */
+export function toHistoryRow(
+	record: ExecutionRecord,
+	columns: SheetColumns,
+): (string | number)[] {
+	const values: Record<string, string | number> = {
+		実行日時: getJstTimestamp(new Date(record.startedAt)),
+		ステータス: record.status,
+		処理件数: formatProcessedCount(record),
+		エラー詳細: record.errorDetail.substring(0, MAX_ERROR_DETAIL_LENGTH) || "-",
+		実行ID: record.runId,
+		終了日時: getJstTimestamp(new Date(record.finishedAt)),
+		"所要時間(秒)": (record.durationMs / 1000).toFixed(1),
+		取得: record.scraped,
+		新規: record.inserted,
+		更新: record.updated,
+		変更なし: record.unchanged,
+		スキップ: record.skipped,
+		新規資料: record.documents,
+		要確認: record.issues,
+		HTTPリクエスト: record.httpRequests,
+		HTTPリトライ: record.httpRetries,
+		HTTPエラー: record.httpErrors,
+	};
+	const row: (string | number)[] = columns.headers.map(() => "");
+	for (const [header, value] of Object.entries(values)) {
+		row[getColumnIndex(columns, header)] = value;
+	}
+	return row;
+}
+
+/**
+ * 実行履歴シートの行データを実行履歴にする
+ * 列を追加する前の行は、追加した列を空 (件数は0) として返す
+ */
+export function toExecutionRecord(
+	row: string[],
+	columns: SheetColumns,
+): ExecutionRecord {
+	const cell = (header: string) => getCell(row, columns, header);
+	const count = (header: string) => toNumber(cell(header));
+	const finishedAt = cell("終了日時");
+	const errorDetail = cell("エラー詳細");
+
+	return {
+		runId: cell("実行ID"),
+		sourceId: "",
+		startedAt: fromJstTimestamp(cell("実行日時")),
+		finishedAt: finishedAt ? fromJstTimestamp(finishedAt) : "",
+		durationMs: Math.round(count("所要時間(秒)") * 1000),
+		status: cell("ステータス") === "失敗" ? "失敗" : "成功",
+		scraped: count("取得"),
+		inserted: count("新規"),
+		updated: count("更新"),
+		unchanged: count("変更なし"),
+		skipped: count("スキップ"),
+		documents: count("新規資料"),
+		issues: count("要確認"),
+		httpRequests: count("HTTPリクエスト"),
+		httpRetries: count("HTTPリトライ"),
+		httpErrors: count("HTTPエラー"),
+		errorDetail: errorDetail === "-" ? "" : errorDetail,
+	};
+}
+
+/**
+ * 実行履歴を記録
+ */
+export async function logExecution(
+	sheetName: string,
+	record: ExecutionRecord,
+): Promise<void> {
+	try {
+		const sheets = await getSheetsClient();
+
+		// 実行履歴シートの存在確認
+		const columns = await ensureHistorySheetExists(sheets, sheetName);
+
+		// 履歴を追加
+		await sheets.spreadsheets.values.append({
+			spreadsheetId: getSpreadsheetId(),
+			range: `${sheetName}!A:${getLastColumnLetter(columns)}`,
+			valueInputOption: "RAW",
+			requestBody: {
+				values: [toHistoryRow(record, columns)],
+			},
+		});
+
+		console.log(
+			`Logged execution: ${record.status} - ${formatProcessedCount(record)}`,
+		);
+	} catch (error) {
+		console.error("Failed to log execution:", error);
+	}
+}
+
+/**
+ * 最近の実行履歴を新しい順に取得
+ * 列はヘッダー名で読み取る (シートがまだない場合 (初回の同期前) は空とする)
+ */
+export async function listExecutions(
+	sheetName: string,
+	limit: number,
+): Promise<ExecutionRecord[]> {
+	const sheets = await getSheetsClient();
+	const { columns, rows } = await readSheetData(
+		sheets,
+		sheetName,
+		HISTORY_SHEET_HEADERS,
+	);
+
+	return rows
+		.slice(-limit)
+		.reverse()
+		.map((row) => toExecutionRecord(row, columns));
+}
@@ -0,0 +1,108 @@
+import { describe, expect, test } from "bun:test";
+import { resolveColumns } from "./columns";
+import {
+	buildFormatRules,
+	findArchiveRows,
+	toArchiveRow,
+} from "./housekeeping";
+
+// 利用者が「担当」列とヘッダーのない列を追加したメインデータシート
+const columns = resolveColumns(
+	["審議会名", "開催日", "担当", "", "詳細URL"],
+	["審議会名", "開催日", "詳細URL"],
+);
+
+describe("toArchiveRow", () => {
+	test("ヘッダーが空の列や最後のヘッダーより右の列も同じ列位置に書き込む", () => {
+		const archiveColumns = resolveColumns(columns.headers, columns.headers);
+		const row = [
+			"第1回 検討会",
+			"2026-07-01",
+			"山田",
+			"要フォロー",
+			"url1",
+			"メモ",
+		];
+
+		expect(toArchiveRow(row, columns, archiveColumns)).toEqual(row);
+	});
+
+	test("ヘッダー名のある列は過去シートの同じヘッダーの列に書き込む", () => {
+		// 過去シートの作成後にメインデータシートの列を並べ替えた場合
+		const archiveColumns = resolveColumns(
+			["開催日", "審議会名", "担当", "", "詳細URL"],
+			["審議会名", "開催日", "詳細URL"],
+		);
+
+		expect(
+			toArchiveRow(
+				["第1回 検討会", "2026-07-01", "山田", "要フォロー", "url1"],
+				columns,
+				archiveColumns,
+			),
+		).toEqual(["2026-07-01", "第1回 検討会", "山田", "要フォロー", "url1"]);
+	});
+
+	test("空のセルは過去シートの既存の値を残す", () => {
+		const archiveColumns = resolveColumns(columns.headers, columns.headers);
+
+		expect(
+			toArchiveRow(
+				["第1回 検討会（修正）", "2026-07-01", "", "", "url1"],
+				columns,
+				archiveColumns,
+				["第1回 検討会", "2026-07-01", "山田", "要フォロー", "url1", "メモ"],
+			),
+		).toEqual([
+			"第1回 検討会（修正）",
+			"2026-07-01",
+			"山田",
+			"要フォロー",
+			"url1",
+			"メモ",
+		]);
+	});
+});
+
+describe("findArchiveRows", () => {
+	test("開催日が基準日より前の会議の位置を返す", () => {
+		const rows = [
+			["第1回", "2026-07-01", "", "", "url1"],
+			["第2回", "2026-07-20", "", "", "url2"],
+			["第3回", "調整中", "", "", "url3"],
+			["第4回", "2026-06-30", "", "", ""],
+			["第5回", "2026-06-30", "", "", "url5"],
+		];
+
+		expect(findArchiveRows(rows, columns, "2026-07-20")).toEqual([0, 4]);
+	});
+});
+
+describe("buildFormatRules", () => {
+	test("今日・今週 (月曜始まり) の範囲を同期時点のJSTの日付で数式に埋め込む", () => {
+		const sheetColumns = resolveColumns(
+			["審議会名", "担当", "開催日", "最終更新日時"],
+			["審議会名", "開催日", "最終更新日時"],
+		);
+
+		const rules = buildFormatRules(
+			42,
+			sheetColumns,
+			"2026-10-22 09:00:00",
+			"2026-10-22",
+		);
+
+		expect(
+			rules.map(
+				(rule) => rule.booleanRule?.condition?.values?.[0]?.userEnteredValue,
+			),
+		).toEqual([
+			'=AND($D2<>"",$D2>="2026-10-22 09:00:00",N("自動書式")=0)',
+			'=AND($C2="2026-10-22",N("自動書式")=0)',
+			'=AND($C2>="2026-10-19",$C2<="2026-10-25",N("自動書式")=0)',
+		]);
+		expect(rules[0]?.ranges).toEqual([
+			{ sheetId: 42, startRowIndex: 1, startColumnIndex: 0, endColumnIndex: 4 },
+		]);
+	});
+});
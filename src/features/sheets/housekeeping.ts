@@ -0,0 +1,356 @@
+import type { sheets_v4 } from "googleapis";
+import { getJstDateString } from "@/utils/time";
+import {
+	ensureSheetExists,
+	getJstTimestamp,
+	getSheetProperties,
+	getSheetsClient,
+	getSpreadsheetId,
+	type SheetsClient,
+	toColumnLetter,
+} from "./client";
+import {
+	addMissingHeaders,
+	getCell,
+	getColumnIndex,
+	getColumnLetter,
+	readSheetData,
+	type SheetColumns,
+} from "./columns";
+import { readMainSheet } from "./editor";
+import { getWeekRanges } from "./overview";
+
+const DEFAULT_ARCHIVE_AFTER_DAYS = 90;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// 自動で追加した条件付き書式の目印 (数式に含め、次回の実行時に置き換える)
+const RULE_MARKER = 'N("自動書式")=0';
+
+// 条件付き書式の背景色
+const CHANGED_COLOR = { red: 0.85, green: 0.94, blue: 0.85 };
+const TODAY_COLOR = { red: 1, green: 0.85, blue: 0.7 };
+const THIS_WEEK_COLOR = { red: 1, green: 0.97, blue: 0.8 };
+
+/**
+ * 開催日から何日経過した会議を過去シートに移動するか (環境変数 ARCHIVE_AFTER_DAYS)
+ * 0 以下の場合は移動しない
+ */
+export function getArchiveAfterDays(): number {
+	const value = Number.parseInt(process.env.ARCHIVE_AFTER_DAYS ?? "", 10);
+	return Number.isNaN(value) ? DEFAULT_ARCHIVE_AFTER_DAYS : value;
+}
+
+/**
+ * 過去シートに移動する行 (ヘッダー行を除いた0始まりの位置) を返す
+ * 開催日が YYYY-MM-DD 形式で cutoff より前の会議が対象
+ */
+export function findArchiveRows(
+	rows: string[][],
+	columns: SheetColumns,
+	cutoff: string,
+): number[] {
+	return rows.flatMap((row, index) => {
+		const date = getCell(row, columns, "開催日");
+		return getCell(row, columns, "詳細URL") &&
+			DATE_PATTERN.test(date) &&
+			date < cutoff
+			? [index]
+			: [];
+	});
+}
+
+/**
+ * メインデータシートの行を過去シートの行に変換 (利用者が追加した列を含む行全体)
+ * ヘッダー名のある列は過去シートの同じヘッダーの列に、ヘッダーが空の列や最後のヘッダーより右の列は同じ列位置に書き込む
+ * 空のセルは baseRow (過去シートの既存の行) の値を残す
+ */
+export function toArchiveRow(
+	row: string[],
+	columns: SheetColumns,
+	archiveColumns: SheetColumns,
+	baseRow: string[] = [],
+): string[] {
+	const width = Math.max(
+		archiveColumns.headers.length,
+		row.length,
+		baseRow.length,
+	);
+	const archiveRow = Array.from({ length: width }, (_, i) => baseRow[i] ?? "");
+
+	row.forEach((value, index) => {
+		if (!value) {
+			return;
+		}
+		const header = columns.headers[index] ?? "";
+		const archiveIndex =
+			header && columns.indexes.get(header) === index
+				? (archiveColumns.indexes.get(header) ?? index)
+				: index;
+		archiveRow[archiveIndex] = value;
+	});
+	return archiveRow;
+}
+
+/**
+ * 行を過去シートに書き込む (利用者が追加した列を含む全列)
+ * 過去シートはメインデータシートと同じヘッダー行 (空のヘッダーを含む) で作成する
+ * 過去シートに同じ詳細URLの行がある場合は、その行を更新する (空のセルは過去シートの値を残す)
+ */
+async function writeArchiveRows(
+	sheets: SheetsClient,
+	archiveSheetName: string,
+	columns: SheetColumns,
+	rows: string[][],
+): Promise<void> {
+	const created = await ensureSheetExists(
+		sheets,
+		archiveSheetName,
+		columns.headers,
+	);
+	if (created) {
+		console.log(`Created archive sheet: ${archiveSheetName}`);
+	}
+
+	const archive = await readSheetData(
+		sheets,
+		archiveSheetName,
+		columns.headers.filter((header) => header),
+	);
+	await addMissingHeaders(sheets, archiveSheetName, archive.columns);
+
+	const urlToRowIndex = new Map<string, number>();
+	archive.rows.forEach((row, index) => {
+		const url = getCell(row, archive.columns, "詳細URL");
+		if (url) {
+			urlToRowIndex.set(url, index + 2); // +2 はヘッダー行とインデックスの調整
+		}
+	});
+
+	const updates: Array<{ range: string; values: string[][] }> = [];
+	const appends: string[][] = [];
+	for (const row of rows) {
+		const rowIndex = urlToRowIndex.get(getCell(row, columns, "詳細URL"));
+		if (rowIndex === undefined) {
+			appends.push(toArchiveRow(row, columns, archive.columns));
+			continue;
+		}
+		const values = toArchiveRow(
+			row,
+			columns,
+			archive.columns,
+			archive.rows[rowIndex - 2],
+		);
+		updates.push({
+			range: `${archiveSheetName}!A${rowIndex}:${toColumnLetter(values.length - 1)}${rowIndex}`,
+			values: [values],
+		});
+	}
+
+	if (updates.length > 0) {
+		await sheets.spreadsheets.values.batchUpdate({
+			spreadsheetId: getSpreadsheetId(),
+			requestBody: {
+				valueInputOption: "RAW",
+				data: updates,
+			},
+		});
+	}
+	if (appends.length > 0) {
+		await sheets.spreadsheets.values.append({
+			spreadsheetId: getSpreadsheetId(),
+			range: `${archiveSheetName}!A:${toColumnLetter(Math.max(...appends.map((row) => row.length)) - 1)}`,
+			valueInputOption: "RAW",
+			requestBody: {
+				values: appends,
+			},
+		});
+	}
+}
+
+/**
+ * 条件付き書式のルールを作成 (自動で追加したことがわかるよう数式に目印を含める)
+ */
+function toFormatRule(
+	range: sheets_v4.Schema$GridRange,
+	condition: string,
+	backgroundColor: sheets_v4.Schema$Color,
+): sheets_v4.Schema$ConditionalFormatRule {
+	return {
+		ranges: [range],
+		booleanRule: {
+			condition: {
+				type: "CUSTOM_FORMULA",
+				values: [{ userEnteredValue: `=AND(${condition},${RULE_MARKER})` }],
+			},
+			format: { backgroundColor },
+		},
+	};
+}
+
+/**
+ * 今回の同期で変更された行・今日・今週 (月曜始まり) の会議の条件付き書式
+ * 今日・今週は TODAY() (スプレッドシートのタイムゾーン) ではなく、同期時点のJSTの日付を数式に埋め込む
+ * 先に並べたルールが優先される
+ */
+export function buildFormatRules(
+	sheetId: number,
+	columns: SheetColumns,
+	changedSince: string,
+	today: string,
+): sheets_v4.Schema$ConditionalFormatRule[] {
+	const range = {
+		sheetId,
+		startRowIndex: 1,
+		startColumnIndex: 0,
+		endColumnIndex: columns.headers.length,
+	};
+	const date = `$${getColumnLetter(columns, "開催日")}2`;
+	const updatedAt = `$${getColumnLetter(columns, "最終更新日時")}2`;
+	const { thisWeek } = getWeekRanges(today);
+
+	return [
+		toFormatRule(
+			range,
+			`${updatedAt}<>"",${updatedAt}>="${changedSince}"`,
+			CHANGED_COLOR,
+		),
+		toFormatRule(range, `${date}="${today}"`, TODAY_COLOR),
+		toFormatRule(
+			range,
+			`${date}>="${thisWeek.from}",${date}<="${thisWeek.to}"`,
+			THIS_WEEK_COLOR,
+		),
+	];
+}
+
+/**
+ * 前回までに自動で追加した条件付き書式の位置を返す (利用者が追加したルールは残す)
+ */
+async function findMarkedRuleIndexes(
+	sheets: SheetsClient,
+	sheetName: string,
+): Promise<number[]> {
+	const response = await sheets.spreadsheets.get({
+		spreadsheetId: getSpreadsheetId(),
+		ranges: [sheetName],
+		fields: "sheets.conditionalFormats",
+	});
+	const rules = response.data.sheets?.[0]?.conditionalFormats ?? [];
+
+	return rules.flatMap((rule, index) =>
+		rule.booleanRule?.condition?.values?.some((value) =>
+			value.userEnteredValue?.includes(RULE_MARKER),
+		)
+			? [index]
+			: [],
+	);
+}
+
+/**
+ * 同期後のメインデータシートを整理する
+ * - 開催日から一定期間が経過した会議を過去シートに移動 (archive が true の場合のみ)
+ * - ヘッダー行を固定し、開催日・開始時刻の順に並べ替え
+ * - 今回の同期で変更された行 (changedSince 以降に更新)・今日・今週の会議に条件付き書式を設定
+ * 並べ替え・移動は行全体で行うため、利用者が追加した列 (担当者・メモなど) の値も行とともに移動する
+ */
+export async function tidyMainSheet(
+	sheetName: string,
+	archiveSheetName: string,
+	options: { changedSince: Date; archive: boolean },
+): Promise<void> {
+	const sheets = await getSheetsClient();
+	const properties = await getSheetProperties(sheets, sheetName);
+	const sheetId = properties?.sheetId ?? undefined;
+	if (sheetId === undefined) {
+		return;
+	}
+
+	const { columns, rows } = await readMainSheet(sheets, sheetName);
+	await addMissingHeaders(sheets, sheetName, columns);
+
+	// 並べ替えはヘッダーのない列を含むシートの全列で行う (追加したヘッダーの分も含める)
+	const columnCount = Math.max(
+		properties?.gridProperties?.columnCount ?? 0,
+		columns.headers.length,
+	);
+
+	// 過去の会議を過去シートに書き込む (書き込めた場合のみメインデータシートから削除する)
+	const archiveAfterDays = getArchiveAfterDays();
+	let archiveRows: number[] = [];
+	if (options.archive && archiveAfterDays > 0) {
+		const cutoff = new Date();
+		cutoff.setUTCDate(cutoff.getUTCDate() - archiveAfterDays);
+		archiveRows = findArchiveRows(rows, columns, getJstDateString(cutoff));
+		if (archiveRows.length > 0) {
+			await writeArchiveRows(
+				sheets,
+				archiveSheetName,
+				columns,
+				archiveRows.map((index) => rows[index] ?? []),
+			);
+			console.log(
+				`Moved ${archiveRows.length} meetings to ${archiveSheetName}`,
+			);
+		}
+	}
+
+	const markedRuleIndexes = await findMarkedRuleIndexes(sheets, sheetName);
+	const formatRules = buildFormatRules(
+		sheetId,
+		columns,
+		getJstTimestamp(options.changedSince),
+		getJstDateString(),
+	);
+
+	// 行・ルールの削除は後ろから行い、位置がずれないようにする
+	const requests: sheets_v4.Schema$Request[] = [
+		...archiveRows.toReversed().map((index) => ({
+			deleteDimension: {
+				range: {
+					sheetId,
+					dimension: "ROWS",
+					startIndex: index + 1, // +1 はヘッダー行の調整
+					endIndex: index + 2,
+				},
+			},
+		})),
+		{
+			updateSheetProperties: {
+				properties: { sheetId, gridProperties: { frozenRowCount: 1 } },
+				fields: "gridProperties.frozenRowCount",
+			},
+		},
+		{
+			sortRange: {
+				range: {
+					sheetId,
+					startRowIndex: 1,
+					startColumnIndex: 0,
+					endColumnIndex: columnCount,
+				},
+				sortSpecs: [
+					{
+						dimensionIndex: getColumnIndex(columns, "開催日"),
+						sortOrder: "ASCENDING",
+					},
+					{
+						dimensionIndex: getColumnIndex(columns, "開始時刻"),
+						sortOrder: "ASCENDING",
+					},
+				],
+			},
+		},
+		...markedRuleIndexes.toReversed().map((index) => ({
+			deleteConditionalFormatRule: { sheetId, index },
+		})),
+		...formatRules.map((rule, index) => ({
+			addConditionalFormatRule: { rule, index },
+		})),
+	];
+
+	await sheets.spreadsheets.batchUpdate({
+		spreadsheetId: getSpreadsheetId(),
+		requestBody: { requests },
+	});
+}
@@ -0,0 +1,99 @@
+import { describe, expect, test } from "bun:test";
+import type { MeetingData, MeetingSource } from "@/definitions/types";
+import {
+	buildOverviewRows,
+	buildWeeklyRows,
+	getWeekRanges,
+	type OverviewEntry,
+} from "./overview";
+
+const meti = { id: "meti", sheetName: "経済産業省" } as MeetingSource;
+const occto = { id: "occto", sheetName: "OCCTO" } as MeetingSource;
+
+function entry(
+	source: MeetingSource,
+	overrides: Partial<MeetingData>,
+	status = "予定",
+): OverviewEntry {
+	return {
+		source,
+		status,
+		meeting: {
+			name: "",
+			date: "",
+			time: "",
+			startTime: "",
+			endTime: "",
+			allDay: true,
+			agenda: "",
+			detailUrl: "",
+			cancelNotice: "",
+			venue: "",
+			format: "",
+			livestreamUrl: "",
+			viewingDeadline: "",
+			...overrides,
+		},
+	};
+}
+
+describe("getWeekRanges", () => {
+	test.each([
+		// 月曜日・日曜日・土曜日
+		["2026-10-19", "2026-10-19"],
+		["2026-10-25", "2026-10-19"],
+		["2026-10-31", "2026-10-26"],
+	])("%s を含む週は %s から始まる", (today, monday) => {
+		const { thisWeek, nextWeek } = getWeekRanges(today);
+
+		expect(thisWeek.from).toBe(monday);
+		expect(nextWeek.from > thisWeek.to).toBe(true);
+	});
+
+	test("月末・年末をまたぐ週を計算する", () => {
+		expect(getWeekRanges("2026-12-30")).toEqual({
+			thisWeek: { from: "2026-12-28", to: "2027-01-03" },
+			nextWeek: { from: "2027-01-04", to: "2027-01-10" },
+		});
+	});
+});
+
+describe("buildOverviewRows / buildWeeklyRows", () => {
+	// 2026-10-21 (水) 時点
+	const today = "2026-10-21";
+	const entries = [
+		entry(meti, { name: "来週の会議", date: "2026-10-27", startTime: "10:00" }),
+		entry(occto, { name: "過去の会議", date: "2026-10-20" }, "開催済"),
+		entry(occto, {
+			name: "今週の会議",
+			date: "2026-10-21",
+			startTime: "15:00",
+			tags: ["容量市場", "系統"],
+		}),
+		entry(meti, { name: "時刻未定の会議", date: "2026-10-21" }),
+		entry(meti, { name: "日付未定の会議", date: "調整中" }),
+		entry(occto, { name: "再来週の会議", date: "2026-11-02" }),
+	];
+
+	test("今日以降の会議を開催日・開始時刻の順に取得元をまたいで並べる", () => {
+		expect(
+			buildOverviewRows(entries, today).map((row) => [row[0], row[4]]),
+		).toEqual([
+			["経済産業省", "時刻未定の会議"],
+			["OCCTO", "今週の会議"],
+			["経済産業省", "来週の会議"],
+			["OCCTO", "再来週の会議"],
+		]);
+		expect(buildOverviewRows(entries, today)[1]?.[9]).toBe("容量市場, 系統");
+	});
+
+	test("今週・来週の会議のみに週の区分を付ける", () => {
+		expect(
+			buildWeeklyRows(entries, today).map((row) => [row[0], row[5]]),
+		).toEqual([
+			["今週", "時刻未定の会議"],
+			["今週", "今週の会議"],
+			["来週", "来週の会議"],
+		]);
+	});
+});
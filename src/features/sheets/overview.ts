@@ -0,0 +1,199 @@
+import type { MeetingData, MeetingSource } from "@/definitions/types";
+import { getJstDateString } from "@/utils/time";
+import {
+	ensureSheetExists,
+	getSheetsClient,
+	getSpreadsheetId,
+	type SheetsClient,
+	toColumnLetter,
+} from "./client";
+import { listMeetingRecords, TAG_SEPARATOR } from "./editor";
+
+// 全取得元の今後の会議をまとめたシート
+const OVERVIEW_SHEET_NAME = "全体";
+// 今週・来週の会議のシート
+const WEEKLY_SHEET_NAME = "今週・来週";
+
+const OVERVIEW_SHEET_HEADERS = [
+	"取得元",
+	"開催日",
+	"開始時刻",
+	"終了時刻",
+	"審議会名",
+	"ステータス",
+	"議題",
+	"場所",
+	"開催形式",
+	"関連タグ",
+	"詳細URL",
+];
+const WEEKLY_SHEET_HEADERS = ["週", ...OVERVIEW_SHEET_HEADERS];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * 取得元ごとの会議データとステータス
+ */
+export interface OverviewEntry {
+	source: MeetingSource;
+	meeting: MeetingData;
+	status: string;
+}
+
+/**
+ * "YYYY-MM-DD" に日数を加算
+ */
+function addDays(date: string, days: number): string {
+	const result = new Date(`${date}T00:00:00Z`);
+	result.setUTCDate(result.getUTCDate() + days);
+	return result.toISOString().substring(0, 10);
+}
+
+/**
+ * 今日 (JST) を含む週と翌週の範囲を返す (月曜始まり)
+ */
+export function getWeekRanges(today: string): {
+	thisWeek: { from: string; to: string };
+	nextWeek: { from: string; to: string };
+} {
+	// getUTCDay: 0 (日) 〜 6 (土) を月曜起点の日数に変換
+	const offset = (new Date(`${today}T00:00:00Z`).getUTCDay() + 6) % 7;
+	const monday = addDays(today, -offset);
+	return {
+		thisWeek: { from: monday, to: addDays(monday, 6) },
+		nextWeek: { from: addDays(monday, 7), to: addDays(monday, 13) },
+	};
+}
+
+function toOverviewRow({ source, meeting, status }: OverviewEntry): string[] {
+	return [
+		source.sheetName,
+		meeting.date,
+		meeting.startTime,
+		meeting.endTime,
+		meeting.name,
+		status,
+		meeting.agenda,
+		meeting.venue,
+		meeting.format,
+		(meeting.tags ?? []).join(TAG_SEPARATOR),
+		meeting.detailUrl,
+	];
+}
+
+/**
+ * 今日以降の会議を開催日・開始時刻・審議会名の順に並べる
+ * 開催日が不明な会議は除く (時刻未定の会議は同じ日の先頭に並ぶ)
+ */
+export function selectUpcoming(
+	entries: OverviewEntry[],
+	today: string,
+): OverviewEntry[] {
+	return entries
+		.filter(
+			({ meeting }) => DATE_PATTERN.test(meeting.date) && meeting.date >= today,
+		)
+		.sort(
+			(a, b) =>
+				a.meeting.date.localeCompare(b.meeting.date) ||
+				a.meeting.startTime.localeCompare(b.meeting.startTime) ||
+				a.meeting.name.localeCompare(b.meeting.name, "ja"),
+		);
+}
+
+/**
+ * 全体シートの行データを作成
+ */
+export function buildOverviewRows(
+	entries: OverviewEntry[],
+	today: string,
+): string[][] {
+	return selectUpcoming(entries, today).map(toOverviewRow);
+}
+
+/**
+ * 今週・来週シートの行データを作成 (先頭列に "今週" / "来週")
+ */
+export function buildWeeklyRows(
+	entries: OverviewEntry[],
+	today: string,
+): string[][] {
+	const { thisWeek, nextWeek } = getWeekRanges(today);
+	return selectUpcoming(entries, today).flatMap((entry) => {
+		const { date } = entry.meeting;
+		if (date <= thisWeek.to) {
+			return [["今週", ...toOverviewRow(entry)]];
+		}
+		if (date <= nextWeek.to) {
+			return [["来週", ...toOverviewRow(entry)]];
+		}
+		return [];
+	});
+}
+
+/**
+ * シートの内容を行データで置き換える (ヘッダー行も書き直す)
+ */
+async function replaceSheet(
+	sheets: SheetsClient,
+	sheetName: string,
+	headers: string[],
+	rows: string[][],
+): Promise<void> {
+	const created = await ensureSheetExists(sheets, sheetName, headers);
+	if (created) {
+		console.log(`Created sheet: ${sheetName}`);
+	}
+
+	const lastColumn = toColumnLetter(headers.length - 1);
+	await sheets.spreadsheets.values.clear({
+		spreadsheetId: getSpreadsheetId(),
+		range: `${sheetName}!A1:${lastColumn}`,
+	});
+	await sheets.spreadsheets.values.update({
+		spreadsheetId: getSpreadsheetId(),
+		range: `${sheetName}!A1:${lastColumn}${rows.length + 1}`,
+		valueInputOption: "RAW",
+		requestBody: {
+			values: [headers, ...rows],
+		},
+	});
+}
+
+/**
+ * 取得元ごとのシートから全体シートと今週・来週シートを作り直す
+ * 取得元ごとのシートは読み込みのみで変更しない
+ */
+export async function rebuildOverviewSheets(
+	sources: MeetingSource[],
+): Promise<void> {
+	const sheets = await getSheetsClient();
+	const today = getJstDateString();
+
+	const entries: OverviewEntry[] = [];
+	for (const source of sources) {
+		for (const record of await listMeetingRecords(source.sheetName)) {
+			entries.push({ source, ...record });
+		}
+	}
+
+	const overviewRows = buildOverviewRows(entries, today);
+	await replaceSheet(
+		sheets,
+		OVERVIEW_SHEET_NAME,
+		OVERVIEW_SHEET_HEADERS,
+		overviewRows,
+	);
+
+	const weeklyRows = buildWeeklyRows(entries, today);
+	await replaceSheet(
+		sheets,
+		WEEKLY_SHEET_NAME,
+		WEEKLY_SHEET_HEADERS,
+		weeklyRows,
+	);
+
+	console.log(
+		`Rebuilt ${OVERVIEW_SHEET_NAME} (${overviewRows.length} meetings) and ${WEEKLY_SHEET_NAME} (${weeklyRows.length} meetings)`,
+	);
+}
@@ -0,0 +1,65 @@
+import type { ValidationIssue } from "@/definitions/types";
+import {
+	ensureSheetExists,
+	getJstTimestamp,
+	getSheetsClient,
+	getSpreadsheetId,
+} from "./client";
+
+const REVIEW_SHEET_HEADERS = [
+	"確認日時",
+	"審議会名",
+	"詳細URL",
+	"理由",
+	"詳細",
+];
+
+/**
+ * 要確認シートの内容を今回の検証結果で置き換える
+ * 記録に失敗しても同期処理自体は継続する
+ */
+export async function replaceReviewSheet(
+	sheetName: string,
+	issues: ValidationIssue[],
+): Promise<void> {
+	try {
+		const sheets = await getSheetsClient();
+		const created = await ensureSheetExists(
+			sheets,
+			sheetName,
+			REVIEW_SHEET_HEADERS,
+		);
+		if (created) {
+			console.log(`Created review sheet: ${sheetName}`);
+		}
+
+		await sheets.spreadsheets.values.clear({
+			spreadsheetId: getSpreadsheetId(),
+			range: `${sheetName}!A2:E`,
+		});
+
+		if (issues.length === 0) {
+			return;
+		}
+
+		const timestamp = getJstTimestamp();
+		await sheets.spreadsheets.values.update({
+			spreadsheetId: getSpreadsheetId(),
+			range: `${sheetName}!A2:E${issues.length + 1}`,
+			valueInputOption: "RAW",
+			requestBody: {
+				values: issues.map((issue) => [
+					timestamp,
+					issue.name,
+					issue.detailUrl,
+					issue.reason,
+					issue.detail,
+				]),
+			},
+		});
+
+		console.log(`Wrote ${issues.length} issues to ${sheetName}`);
+	} catch (error) {
+		console.error("Failed to write review sheet:", error);
+	}
+}
@@ -0,0 +1,85 @@
+import type { MeetingStore } from "@/definitions/types";
+import { sheetsStore } from "./sheets";
+import { createSqliteStore } from "./sqlite";
+
+/**
+ * 複数のストアにまとめて書き込むストアを作成
+ * 戻り値と読み出しは先頭のストア (主ストア) のものを使う
+ * dryRun の場合は主ストアでの差分の計算のみ行う
+ */
+function createCompositeStore(
+	primary: MeetingStore,
+	...secondaries: MeetingStore[]
+): MeetingStore {
+	const stores = [primary, ...secondaries];
+
+	return {
+		name: stores.map((store) => store.name).join(" + "),
+		upsertMeetings: async (source, meetings, options) => {
+			const result = await primary.upsertMeetings(source, meetings, options);
+			if (options?.dryRun) {
+				return result;
+			}
+			for (const store of secondaries) {
+				await store.upsertMeetings(source, meetings, {
+					partial: options?.partial,
+					unresolvedUrls: options?.unresolvedUrls,
+				});
+			}
+			return result;
+		},
+		logExecution: async (source, record) => {
+			for (const store of stores) {
+				await store.logExecution(source, record);
+			}
+		},
+		upsertDocuments: async (source, meetings, options) => {
+			const result = await primary.upsertDocuments(source, meetings, options);
+			if (options?.dryRun) {
+				return result;
+			}
+			for (const store of secondaries) {
+				await store.upsertDocuments(source, meetings);
+			}
+			return result;
+		},
+		saveIssues: async (source, issues) => {
+			for (const store of stores) {
+				await store.saveIssues(source, issues);
+			}
+		},
+		tidyMeetings: async (source, options) => {
+			for (const store of stores) {
+				await store.tidyMeetings(source, options);
+			}
+		},
+		rebuildViews: async (sources) => {
+			for (const store of stores) {
+				await store.rebuildViews(sources);
+			}
+		},
+		listMeetings: (source) => primary.listMeetings(source),
+		listExecutions: (source, limit) => primary.listExecutions(source, limit),
+	};
+}
+
+/**
+ * 環境変数 STORAGE_BACKEND に応じた保存先を取得
+ * - sheets (既定): Google Sheets
+ * - sqlite: SQLite (SQLITE_PATH で保存先のファイルを指定)
+ * - both: Google Sheets と SQLite の両方
+ */
+export function getStore(): MeetingStore {
+	const backend = process.env.STORAGE_BACKEND || "sheets";
+
+	switch (backend) {
+		case "sheets":
+			return sheetsStore;
+		case "sqlite":
+			return createSqliteStore();
+		case "both":
+			return createCompositeStore(sheetsStore, createSqliteStore());
+		default:
+			throw new Error(`Unknown STORAGE_BACKEND: ${backend}`);
+	}
+}
@@ -0,0 +1,42 @@
+import type { MeetingStore } from "@/definitions/types";
+import { upsertDocuments } from "@/features/sheets/documents";
+import { listMeetings, upsertMeetings } from "@/features/sheets/editor";
+import { listExecutions, logExecution } from "@/features/sheets/history";
+import { tidyMainSheet } from "@/features/sheets/housekeeping";
+import { rebuildOverviewSheets } from "@/features/sheets/overview";
+import { replaceReviewSheet } from "@/features/sheets/review";
+
+/**
+ * Google Sheetsを保存先とするストア
+ */
+export const sheetsStore: MeetingStore = {
+	name: "Google Sheets",
+	upsertMeetings: (source, meetings, options) =>
+		upsertMeetings(
+			meetings,
+			source.sheetName,
+			source.changeLogSheetName,
+			source.archiveSheetName,
+			options,
+		),
+	logExecution: (source, record) =>
+		logExecution(source.historySheetName, record),
+	listMeetings: (source) => listMeetings(source.sheetName),
+	listExecutions: async (source, limit) =>
+		(await listExecutions(source.historySheetName, limit)).map((record) => ({
+			...record,
+			sourceId: source.id,
+		})),
+	upsertDocuments: (source, meetings, options) =>
+		upsertDocuments(
+			meetings,
+			source.documentSheetName,
+			source.sheetName,
+			options,
+		),
+	saveIssues: (source, issues) =>
+		replaceReviewSheet(source.reviewSheetName, issues),
+	tidyMeetings: (source, options) =>
+		tidyMainSheet(source.sheetName, source.archiveSheetName, options),
+	rebuildViews: (sources) => rebuildOverviewSheets(sources),
+};
@@ -0,0 +1,292 @@
+import {
+	afterAll,
+	beforeAll,
+	describe,
+	expect,
+	setSystemTime,
+	test,
+} from "bun:test";
+import type {
+	ExecutionRecord,
+	MeetingData,
+	MeetingDocument,
+	MeetingSource,
+} from "@/definitions/types";
+import { createSqliteStore } from "./sqlite";
+
+const meti = { id: "meti", displayName: "METI" } as MeetingSource;
+const egc = { id: "egc", displayName: "EGC" } as MeetingSource;
+
+function meeting(overrides: Partial<MeetingData> = {}): MeetingData {
+	return {
+		name: "総合資源エネルギー調査会 基本政策分科会（第80回）",
+		date: "2026-10-27",
+		time: "10時00分～12時00分",
+		startTime: "10:00",
+		endTime: "12:00",
+		allDay: false,
+		agenda: "エネルギー基本計画について",
+		detailUrl: "https://www.meti.go.jp/shingikai/enecho/kihon_seisaku/080.html",
+		cancelNotice: "",
+		venue: "経済産業省 本館17階",
+		format: "対面",
+		livestreamUrl: "https://youtu.be/kihon080",
+		viewingDeadline: "2026-10-23",
+		tags: ["基本計画", "エネルギー"],
+		...overrides,
+	};
+}
+
+function execution(overrides: Partial<ExecutionRecord> = {}): ExecutionRecord {
+	return {
+		runId: "run-1",
+		sourceId: "meti",
+		startedAt: "2026-10-19T00:00:00.000Z",
+		finishedAt: "2026-10-19T00:01:00.000Z",
+		durationMs: 60000,
+		status: "成功",
+		scraped: 3,
+		inserted: 1,
+		updated: 1,
+		unchanged: 1,
+		skipped: 0,
+		documents: 2,
+		issues: 1,
+		httpRequests: 5,
+		httpRetries: 1,
+		httpErrors: 0,
+		errorDetail: "",
+		...overrides,
+	};
+}
+
+beforeAll(() => {
+	setSystemTime(new Date("2026-10-19T09:00:00+09:00"));
+});
+
+afterAll(() => {
+	setSystemTime();
+});
+
+describe("upsertMeetings", () => {
+	test("新規の会議を追加し、保存した値をそのまま読み出せる", async () => {
+		const store = createSqliteStore(":memory:");
+
+		const result = await store.upsertMeetings(meti, [meeting()]);
+
+		expect(result).toMatchObject({ inserted: 1, updated: 0, unchanged: 0 });
+		expect(result.insertedMeetings).toEqual([meeting()]);
+		expect(await store.listMeetings(meti)).toEqual([meeting()]);
+	});
+
+	test("値が変わった会議を更新し、変更内容と改訂履歴を記録する", async () => {
+		const store = createSqliteStore(":memory:");
+		await store.upsertMeetings(meti, [meeting()]);
+
+		const result = await store.upsertMeetings(meti, [
+			meeting({ date: "2026-10-28", agenda: "" }),
+		]);
+
+		expect(result).toMatchObject({ inserted: 0, updated: 1, unchanged: 0 });
+		expect(result.changes).toEqual([
+			{
+				detailUrl: meeting().detailUrl,
+				name: meeting().name,
+				field: "開催日",
+				before: "2026-10-27",
+				after: "2026-10-28",
+			},
+			{
+				detailUrl: meeting().detailUrl,
+				name: meeting().name,
+				field: "議題",
+				before: "エネルギー基本計画について",
+				after: "",
+			},
+		]);
+		expect(
+			store
+				.listRevisions(meti, meeting().detailUrl)
+				.map((revision) => [revision.status, revision.meeting.date]),
+		).toEqual([
+			["予定", "2026-10-27"],
+			["予定", "2026-10-28"],
+		]);
+	});
+
+	test("値が変わらない会議は変更なしとし、改訂履歴を追加しない", async () => {
+		const store = createSqliteStore(":memory:");
+		await store.upsertMeetings(meti, [meeting()]);
+
+		const result = await store.upsertMeetings(meti, [meeting(), meeting()]);
+
+		expect(result).toMatchObject({ inserted: 0, updated: 0, unchanged: 1 });
+		expect(store.listRevisions(meti, meeting().detailUrl)).toHaveLength(1);
+	});
+
+	test("dryRun の場合は差分の計算のみ行う", async () => {
+		const store = createSqliteStore(":memory:");
+
+		const result = await store.upsertMeetings(meti, [meeting()], {
+			dryRun: true,
+		});
+
+		expect(result.inserted).toBe(1);
+		expect(await store.listMeetings(meti)).toEqual([]);
+	});
+
+	test("同じ詳細URLの会議を取得元ごとに保存する", async () => {
+		const store = createSqliteStore(":memory:");
+		const detailUrl =
+			"https://www.emsc.meti.go.jp/activity/emsc_system/121_kaisai.html";
+		await store.upsertMeetings(meti, [meeting({ detailUrl })]);
+
+		const result = await store.upsertMeetings(egc, [
+			meeting({ detailUrl, name: "第121回 制度設計・監視専門会合" }),
+		]);
+
+		expect(result.inserted).toBe(1);
+		expect((await store.listMeetings(meti)).map((m) => m.name)).toEqual([
+			meeting().name,
+		]);
+		expect((await store.listMeetings(egc)).map((m) => m.name)).toEqual([
+			"第121回 制度設計・監視専門会合",
+		]);
+		expect(store.listRevisions(egc, detailUrl)).toHaveLength(1);
+	});
+});
+
+describe("ステータス", () => {
+	const future = meeting();
+	const past = meeting({
+		date: "2026-10-01",
+		detailUrl: "https://www.meti.go.jp/shingikai/enecho/kihon_seisaku/079.html",
+	});
+
+	test("告知のある会議は中止の可能性とする", async () => {
+		const store = createSqliteStore(":memory:");
+
+		await store.upsertMeetings(meti, [meeting({ cancelNotice: "延期" })]);
+
+		expect(store.listRevisions(meti, future.detailUrl)[0]?.status).toBe(
+			"中止の可能性",
+		);
+	});
+
+	test("一覧から消えた開催前の会議は中止の可能性、開催済みの会議は開催済とする", async () => {
+		const store = createSqliteStore(":memory:");
+		await store.upsertMeetings(meti, [future, past]);
+
+		const result = await store.upsertMeetings(meti, [
+			meeting({
+				detailUrl:
+					"https://www.meti.go.jp/shingikai/enecho/kihon_seisaku/081.html",
+			}),
+		]);
+
+		expect(result.changes).toEqual([
+			{
+				detailUrl: future.detailUrl,
+				name: future.name,
+				field: "ステータス",
+				before: "予定",
+				after: "中止の可能性",
+			},
+		]);
+		expect(store.listRevisions(meti, past.detailUrl).at(-1)?.status).toBe(
+			"開催済",
+		);
+	});
+
+	test("詳細ページの取得に失敗・スキップした会議は値とステータスを変更しない", async () => {
+		const store = createSqliteStore(":memory:");
+		await store.upsertMeetings(meti, [future, past]);
+
+		// 取得に失敗した会議は空の値、スキップした会議は取得結果に含まれない
+		const result = await store.upsertMeetings(
+			meti,
+			[meeting({ time: "", startTime: "", endTime: "", agenda: "" })],
+			{ unresolvedUrls: [future.detailUrl, past.detailUrl] },
+		);
+
+		expect(result).toMatchObject({ updated: 0, unchanged: 1, changes: [] });
+		expect(await store.listMeetings(meti)).toEqual([past, future]);
+	});
+
+	test("partial の場合は一覧にない会議のステータスを再判定しない", async () => {
+		const store = createSqliteStore(":memory:");
+		await store.upsertMeetings(meti, [future]);
+
+		const result = await store.upsertMeetings(meti, [], { partial: true });
+
+		expect(result.changes).toEqual([]);
+		expect(store.listRevisions(meti, future.detailUrl)).toHaveLength(1);
+	});
+});
+
+describe("logExecution / listExecutions", () => {
+	test("実行履歴を新しい順に件数を指定して読み出す", async () => {
+		const store = createSqliteStore(":memory:");
+		await store.logExecution(meti, execution());
+		await store.logExecution(
+			meti,
+			execution({
+				runId: "run-2",
+				status: "失敗",
+				errorDetail: "Error: HTTP 503",
+			}),
+		);
+		await store.logExecution(egc, execution({ runId: "run-3" }));
+
+		expect(await store.listExecutions(meti, 10)).toEqual([
+			execution({
+				runId: "run-2",
+				status: "失敗",
+				errorDetail: "Error: HTTP 503",
+			}),
+			execution(),
+		]);
+		expect(
+			(await store.listExecutions(meti, 1)).map((record) => record.runId),
+		).toEqual(["run-2"]);
+	});
+});
+
+describe("upsertDocuments", () => {
+	const document: MeetingDocument = {
+		kind: "配布資料",
+		title: "議事次第",
+		url: "https://www.meti.go.jp/shingikai/enecho/kihon_seisaku/080/080_001.pdf",
+		fileType: "PDF",
+	};
+	const target = {
+		detailUrl: meeting().detailUrl,
+		name: meeting().name,
+		date: meeting().date,
+		documents: [document],
+	};
+
+	test("未記録の資料のみを追加して返す", async () => {
+		const store = createSqliteStore(":memory:");
+
+		expect(await store.upsertDocuments(meti, [target])).toEqual([
+			{
+				...document,
+				detailUrl: meeting().detailUrl,
+				name: meeting().name,
+			},
+		]);
+		expect(await store.upsertDocuments(meti, [target])).toEqual([]);
+		// 同じ資料でも別の取得元の会議としては未記録
+		expect(await store.upsertDocuments(egc, [target])).toHaveLength(1);
+	});
+
+	test("dryRun の場合は追加しない", async () => {
+		const store = createSqliteStore(":memory:");
+
+		expect(
+			await store.upsertDocuments(meti, [target], { dryRun: true }),
+		).toHaveLength(1);
+		expect(await store.upsertDocuments(meti, [target])).toHaveLength(1);
+	});
+});
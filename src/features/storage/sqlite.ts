@@ -0,0 +1,617 @@
+import { Database } from "bun:sqlite";
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import type {
+	CancelNotice,
+	DocumentEntry,
+	ExecutionRecord,
+	MeetingChange,
+	MeetingData,
+	MeetingDocuments,
+	MeetingFormat,
+	MeetingSource,
+	MeetingStatus,
+	MeetingStore,
+	UpsertResult,
+	ValidationIssue,
+} from "@/definitions/types";
+import { formatProcessedCount } from "@/features/history";
+import { parseCommitteeName } from "@/features/scrape/committee";
+import { getJstDateString } from "@/utils/time";
+import { resolveStatus } from "./status";
+
+const DEFAULT_DATABASE_PATH = "data/committee-scheduler.sqlite";
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS meetings (
+	detail_url TEXT NOT NULL,
+	source_id TEXT NOT NULL,
+	name TEXT NOT NULL,
+	date TEXT NOT NULL,
+	time TEXT NOT NULL,
+	start_time TEXT NOT NULL,
+	end_time TEXT NOT NULL,
+	all_day INTEGER NOT NULL,
+	agenda TEXT NOT NULL,
+	cancel_notice TEXT NOT NULL,
+	status TEXT NOT NULL,
+	tags TEXT NOT NULL,
+	venue TEXT NOT NULL,
+	format TEXT NOT NULL,
+	livestream_url TEXT NOT NULL,
+	viewing_deadline TEXT NOT NULL,
+	council TEXT NOT NULL,
+	subcommittees TEXT NOT NULL,
+	working_group TEXT NOT NULL,
+	session TEXT NOT NULL,
+	joint_meeting INTEGER NOT NULL,
+	first_seen_at TEXT NOT NULL,
+	updated_at TEXT NOT NULL,
+	PRIMARY KEY (source_id, detail_url)
+);
+CREATE INDEX IF NOT EXISTS meetings_source_date ON meetings (source_id, date);
+
+CREATE TABLE IF NOT EXISTS meeting_revisions (
+	id INTEGER PRIMARY KEY AUTOINCREMENT,
+	detail_url TEXT NOT NULL,
+	source_id TEXT NOT NULL,
+	recorded_at TEXT NOT NULL,
+	name TEXT NOT NULL,
+	date TEXT NOT NULL,
+	time TEXT NOT NULL,
+	start_time TEXT NOT NULL,
+	end_time TEXT NOT NULL,
+	all_day INTEGER NOT NULL,
+	agenda TEXT NOT NULL,
+	cancel_notice TEXT NOT NULL,
+	status TEXT NOT NULL,
+	tags TEXT NOT NULL,
+	venue TEXT NOT NULL,
+	format TEXT NOT NULL,
+	livestream_url TEXT NOT NULL,
+	viewing_deadline TEXT NOT NULL,
+	council TEXT NOT NULL,
+	subcommittees TEXT NOT NULL,
+	working_group TEXT NOT NULL,
+	session TEXT NOT NULL,
+	joint_meeting INTEGER NOT NULL
+);
+CREATE INDEX IF NOT EXISTS meeting_revisions_url ON meeting_revisions (source_id, detail_url, id);
+
+CREATE TABLE IF NOT EXISTS meeting_documents (
+	detail_url TEXT NOT NULL,
+	url TEXT NOT NULL,
+	source_id TEXT NOT NULL,
+	kind TEXT NOT NULL,
+	title TEXT NOT NULL,
+	file_type TEXT NOT NULL,
+	first_seen_at TEXT NOT NULL,
+	PRIMARY KEY (source_id, detail_url, url)
+);
+
+CREATE TABLE IF NOT EXISTS validation_issues (
+	id INTEGER PRIMARY KEY AUTOINCREMENT,
+	source_id TEXT NOT NULL,
+	checked_at TEXT NOT NULL,
+	detail_url TEXT NOT NULL,
+	name TEXT NOT NULL,
+	reason TEXT NOT NULL,
+	detail TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS executions (
+	id INTEGER PRIMARY KEY AUTOINCREMENT,
+	source_id TEXT NOT NULL,
+	executed_at TEXT NOT NULL,
+	status TEXT NOT NULL,
+	processed_count TEXT NOT NULL,
+	error_detail TEXT NOT NULL,
+	run_id TEXT NOT NULL,
+	finished_at TEXT NOT NULL,
+	duration_ms INTEGER NOT NULL,
+	scraped INTEGER NOT NULL,
+	inserted INTEGER NOT NULL,
+	updated INTEGER NOT NULL,
+	unchanged INTEGER NOT NULL,
+	skipped INTEGER NOT NULL,
+	documents INTEGER NOT NULL,
+	issues INTEGER NOT NULL,
+	http_requests INTEGER NOT NULL,
+	http_retries INTEGER NOT NULL,
+	http_errors INTEGER NOT NULL
+);
+`;
+
+/**
+ * meetings / meeting_revisions テーブルの行
+ */
+interface MeetingRow {
+	detail_url: string;
+	source_id: string;
+	name: string;
+	date: string;
+	time: string;
+	start_time: string;
+	end_time: string;
+	all_day: number;
+	agenda: string;
+	cancel_notice: string;
+	status: string;
+	tags: string; // 関連タグ (カンマ区切り)
+	venue: string;
+	format: string;
+	livestream_url: string;
+	viewing_deadline: string;
+	council: string; // 親審議会 (会議名から解析)
+	subcommittees: string; // 分科会・小委員会 (" > " 区切り)
+	working_group: string;
+	session: string; // 回次 (記載がない場合は空文字)
+	joint_meeting: number; // 合同会議の場合は1
+}
+
+/**
+ * executions テーブルの行
+ */
+interface ExecutionRow {
+	source_id: string;
+	executed_at: string; // 開始日時
+	status: string;
+	processed_count: string;
+	error_detail: string;
+	run_id: string;
+	finished_at: string;
+	duration_ms: number;
+	scraped: number;
+	inserted: number;
+	updated: number;
+	unchanged: number;
+	skipped: number;
+	documents: number;
+	issues: number;
+	http_requests: number;
+	http_retries: number;
+	http_errors: number;
+}
+
+/**
+ * 会議データの改訂履歴
+ */
+export interface MeetingRevision {
+	recordedAt: string; // 記録日時 (ISO 8601形式)
+	status: MeetingStatus;
+	meeting: MeetingData;
+}
+
+// 変更履歴に記録する項目と、テーブル上の列名
+const TRACKED_COLUMNS: Array<{
+	field: MeetingChange["field"];
+	column: keyof MeetingRow;
+}> = [
+	{ field: "審議会名", column: "name" },
+	{ field: "開催日", column: "date" },
+	{ field: "開催時間", column: "time" },
+	{ field: "議題", column: "agenda" },
+	{ field: "ステータス", column: "status" },
+];
+
+// 同一判定に使う列 (記録日時などのメタ情報を除く)
+const COMPARED_COLUMNS: Array<keyof MeetingRow> = [
+	"source_id",
+	"name",
+	"date",
+	"time",
+	"start_time",
+	"end_time",
+	"all_day",
+	"agenda",
+	"cancel_notice",
+	"status",
+	"tags",
+	"venue",
+	"format",
+	"livestream_url",
+	"viewing_deadline",
+	"council",
+	"subcommittees",
+	"working_group",
+	"session",
+	"joint_meeting",
+];
+
+function getDatabasePath() {
+	return process.env.SQLITE_PATH || DEFAULT_DATABASE_PATH;
+}
+
+function toMeetingRow(
+	source: MeetingSource,
+	meeting: MeetingData,
+	status: MeetingStatus,
+): MeetingRow {
+	const committee = parseCommitteeName(meeting.name);
+	return {
+		detail_url: meeting.detailUrl,
+		source_id: source.id,
+		name: meeting.name,
+		date: meeting.date,
+		time: meeting.time,
+		start_time: meeting.startTime,
+		end_time: meeting.endTime,
+		all_day: meeting.allDay ? 1 : 0,
+		agenda: meeting.agenda,
+		cancel_notice: meeting.cancelNotice,
+		status,
+		tags: (meeting.tags ?? []).join(","),
+		venue: meeting.venue,
+		format: meeting.format,
+		livestream_url: meeting.livestreamUrl,
+		viewing_deadline: meeting.viewingDeadline,
+		council: committee.council,
+		subcommittees: committee.subcommittees,
+		working_group: committee.workingGroup,
+		session: committee.session,
+		joint_meeting: committee.joint ? 1 : 0,
+	};
+}
+
+function toMeetingData(row: MeetingRow): MeetingData {
+	return {
+		name: row.name,
+		date: row.date,
+		time: row.time,
+		startTime: row.start_time,
+		endTime: row.end_time,
+		allDay: row.all_day === 1,
+		agenda: row.agenda,
+		detailUrl: row.detail_url,
+		cancelNotice: row.cancel_notice as CancelNotice,
+		tags: row.tags ? row.tags.split(",") : [],
+		venue: row.venue,
+		format: row.format as MeetingFormat,
+		livestreamUrl: row.livestream_url,
+		viewingDeadline: row.viewing_deadline,
+	};
+}
+
+function isSameRow(existing: MeetingRow, row: MeetingRow): boolean {
+	return COMPARED_COLUMNS.every((column) => existing[column] === row[column]);
+}
+
+function diffRow(existing: MeetingRow, row: MeetingRow): MeetingChange[] {
+	return TRACKED_COLUMNS.filter(
+		({ column }) => existing[column] !== row[column],
+	).map(({ field, column }) => ({
+		detailUrl: row.detail_url,
+		name: row.name,
+		field,
+		before: String(existing[column]),
+		after: String(row[column]),
+	}));
+}
+
+/**
+ * SQLiteを保存先とするストアを作成
+ * 会議データの最新値に加え、変更のたびに改訂履歴を meeting_revisions に残す
+ * 複数の取得元が同じ詳細ページを掲載することがあるため、会議は取得元と詳細URLの組で区別する
+ */
+export function createSqliteStore(
+	path: string = getDatabasePath(),
+): MeetingStore & {
+	listRevisions: (
+		source: MeetingSource,
+		detailUrl: string,
+	) => MeetingRevision[];
+} {
+	if (path !== ":memory:") {
+		mkdirSync(dirname(path), { recursive: true });
+	}
+	const db = new Database(path, { create: true, strict: true });
+	db.exec("PRAGMA journal_mode = WAL;");
+	db.exec(SCHEMA);
+
+	const selectMeetings = db.query<MeetingRow, { source_id: string }>(
+		"SELECT * FROM meetings WHERE source_id = $source_id ORDER BY date, start_time",
+	);
+	const insertMeeting = db.query(
+		`INSERT INTO meetings (detail_url, source_id, name, date, time, start_time, end_time, all_day, agenda, cancel_notice, status, tags, venue, format, livestream_url, viewing_deadline, council, subcommittees, working_group, session, joint_meeting, first_seen_at, updated_at)
+		VALUES ($detail_url, $source_id, $name, $date, $time, $start_time, $end_time, $all_day, $agenda, $cancel_notice, $status, $tags, $venue, $format, $livestream_url, $viewing_deadline, $council, $subcommittees, $working_group, $session, $joint_meeting, $recorded_at, $recorded_at)`,
+	);
+	const updateMeeting = db.query(
+		`UPDATE meetings SET name = $name, date = $date, time = $time, start_time = $start_time, end_time = $end_time,
+		all_day = $all_day, agenda = $agenda, cancel_notice = $cancel_notice, status = $status, tags = $tags,
+		venue = $venue, format = $format, livestream_url = $livestream_url, viewing_deadline = $viewing_deadline,
+		council = $council, subcommittees = $subcommittees, working_group = $working_group, session = $session, joint_meeting = $joint_meeting, updated_at = $recorded_at
+		WHERE source_id = $source_id AND detail_url = $detail_url`,
+	);
+	const insertRevision = db.query(
+		`INSERT INTO meeting_revisions (detail_url, source_id, recorded_at, name, date, time, start_time, end_time, all_day, agenda, cancel_notice, status, tags, venue, format, livestream_url, viewing_deadline,
+		council, subcommittees, working_group, session, joint_meeting)
+		VALUES ($detail_url, $source_id, $recorded_at, $name, $date, $time, $start_time, $end_time, $all_day, $agenda, $cancel_notice, $status, $tags, $venue, $format, $livestream_url, $viewing_deadline,
+		$council, $subcommittees, $working_group, $session, $joint_meeting)`,
+	);
+	const selectRevisions = db.query<
+		MeetingRow & { recorded_at: string },
+		{ source_id: string; detail_url: string }
+	>(
+		"SELECT * FROM meeting_revisions WHERE source_id = $source_id AND detail_url = $detail_url ORDER BY id",
+	);
+	const selectExecutions = db.query<
+		ExecutionRow,
+		{ source_id: string; limit: number }
+	>(
+		"SELECT * FROM executions WHERE source_id = $source_id ORDER BY id DESC LIMIT $limit",
+	);
+	const selectDocumentKeys = db.query<
+		{ detail_url: string; url: string },
+		{ source_id: string }
+	>(
+		"SELECT detail_url, url FROM meeting_documents WHERE source_id = $source_id",
+	);
+	const insertDocument = db.query(
+		`INSERT INTO meeting_documents (detail_url, url, source_id, kind, title, file_type, first_seen_at)
+		VALUES ($detail_url, $url, $source_id, $kind, $title, $file_type, $first_seen_at)`,
+	);
+	const deleteIssues = db.query(
+		"DELETE FROM validation_issues WHERE source_id = $source_id",
+	);
+	const insertIssue = db.query(
+		`INSERT INTO validation_issues (source_id, checked_at, detail_url, name, reason, detail)
+		VALUES ($source_id, $checked_at, $detail_url, $name, $reason, $detail)`,
+	);
+	const insertExecution = db.query(
+		`INSERT INTO executions (source_id, executed_at, status, processed_count, error_detail, run_id, finished_at, duration_ms,
+		scraped, inserted, updated, unchanged, skipped, documents, issues, http_requests, http_retries, http_errors)
+		VALUES ($source_id, $executed_at, $status, $processed_count, $error_detail, $run_id, $finished_at, $duration_ms,
+		$scraped, $inserted, $updated, $unchanged, $skipped, $documents, $issues, $http_requests, $http_retries, $http_errors)`,
+	);
+
+	/**
+	 * 会議データを保存し、改訂履歴を追加
+	 */
+	function saveRow(row: MeetingRow, isNew: boolean, recordedAt: string) {
+		const params = { ...row, recorded_at: recordedAt };
+		if (isNew) {
+			insertMeeting.run(params);
+		} else {
+			updateMeeting.run(params);
+		}
+		insertRevision.run(params);
+	}
+
+	const upsert = db.transaction(
+		(
+			source: MeetingSource,
+			meetings: MeetingData[],
+			dryRun: boolean,
+			partial: boolean,
+			unresolvedUrls: Set<string>,
+		): UpsertResult => {
+			const recordedAt = new Date().toISOString();
+			const today = getJstDateString();
+			const existingRows = new Map(
+				selectMeetings
+					.all({ source_id: source.id })
+					.map((row) => [row.detail_url, row]),
+			);
+
+			const processedUrls = new Set<string>();
+			const changes: MeetingChange[] = [];
+			const insertedMeetings: MeetingData[] = [];
+			let updated = 0;
+			let inserted = 0;
+			let unchanged = 0;
+
+			for (const meeting of meetings) {
+				// 同じ実行内で重複したURLは最初のものだけを扱う
+				if (processedUrls.has(meeting.detailUrl)) {
+					continue;
+				}
+				processedUrls.add(meeting.detailUrl);
+
+				const existing = existingRows.get(meeting.detailUrl);
+				// 詳細ページの取得に失敗した会議は空の値で上書きしない
+				if (existing && unresolvedUrls.has(meeting.detailUrl)) {
+					unchanged++;
+					continue;
+				}
+
+				const status = resolveStatus({
+					date: meeting.date,
+					listed: true,
+					cancelNotice: meeting.cancelNotice,
+					previousStatus: existing?.status,
+					today,
+				});
+				const row = toMeetingRow(source, meeting, status);
+
+				if (!existing) {
+					if (!dryRun) {
+						saveRow(row, true, recordedAt);
+					}
+					insertedMeetings.push(meeting);
+					inserted++;
+				} else if (isSameRow(existing, row)) {
+					unchanged++;
+				} else {
+					changes.push(...diffRow(existing, row));
+					if (!dryRun) {
+						saveRow(row, false, recordedAt);
+					}
+					updated++;
+				}
+			}
+
+			// 今回の取得結果に含まれない既存の会議のステータスを再判定
+			// (一部の期間のみ取得した場合は一覧から消えたとは判断できないため行わない)
+			// 詳細ページの取得に失敗・スキップした会議は一覧に掲載中とみなす
+			for (const existing of existingRows.values()) {
+				if (
+					partial ||
+					processedUrls.has(existing.detail_url) ||
+					unresolvedUrls.has(existing.detail_url)
+				) {
+					continue;
+				}
+
+				const status = resolveStatus({
+					date: existing.date,
+					listed: false,
+					cancelNotice: "",
+					previousStatus: existing.status,
+					today,
+				});
+				if (status === existing.status) {
+					continue;
+				}
+
+				const row = { ...existing, status };
+				changes.push(...diffRow(existing, row));
+				if (!dryRun) {
+					saveRow(row, false, recordedAt);
+				}
+				updated++;
+			}
+
+			return { updated, inserted, unchanged, changes, insertedMeetings };
+		},
+	);
+
+	/**
+	 * 未記録の資料を meeting_documents に追加
+	 * 資料・議事録を初めて確認した日時は first_seen_at から求められる
+	 */
+	const upsertDocuments = db.transaction(
+		(
+			source: MeetingSource,
+			meetings: MeetingDocuments[],
+			dryRun: boolean,
+		): DocumentEntry[] => {
+			const firstSeenAt = new Date().toISOString();
+			const existingKeys = new Set(
+				selectDocumentKeys
+					.all({ source_id: source.id })
+					.map((row) => `${row.detail_url}\t${row.url}`),
+			);
+
+			const entries: DocumentEntry[] = [];
+			for (const meeting of meetings) {
+				for (const document of meeting.documents) {
+					const key = `${meeting.detailUrl}\t${document.url}`;
+					if (existingKeys.has(key)) {
+						continue;
+					}
+					existingKeys.add(key);
+
+					if (!dryRun) {
+						insertDocument.run({
+							detail_url: meeting.detailUrl,
+							url: document.url,
+							source_id: source.id,
+							kind: document.kind,
+							title: document.title,
+							file_type: document.fileType,
+							first_seen_at: firstSeenAt,
+						});
+					}
+					entries.push({
+						...document,
+						detailUrl: meeting.detailUrl,
+						name: meeting.name,
+					});
+				}
+			}
+			return entries;
+		},
+	);
+
+	/**
+	 * 要確認の一覧を今回の検証結果で置き換える
+	 */
+	const replaceIssues = db.transaction(
+		(source: MeetingSource, issues: ValidationIssue[]) => {
+			const checkedAt = new Date().toISOString();
+			deleteIssues.run({ source_id: source.id });
+			for (const issue of issues) {
+				insertIssue.run({
+					source_id: source.id,
+					checked_at: checkedAt,
+					detail_url: issue.detailUrl,
+					name: issue.name,
+					reason: issue.reason,
+					detail: issue.detail,
+				});
+			}
+		},
+	);
+
+	return {
+		name: "SQLite",
+		upsertMeetings: async (source, meetings, options) =>
+			upsert(
+				source,
+				meetings,
+				options?.dryRun ?? false,
+				options?.partial ?? false,
+				new Set(options?.unresolvedUrls),
+			),
+		logExecution: async (source, record) => {
+			insertExecution.run({
+				source_id: source.id,
+				executed_at: record.startedAt,
+				status: record.status,
+				processed_count: formatProcessedCount(record),
+				error_detail: record.errorDetail,
+				run_id: record.runId,
+				finished_at: record.finishedAt,
+				duration_ms: record.durationMs,
+				scraped: record.scraped,
+				inserted: record.inserted,
+				updated: record.updated,
+				unchanged: record.unchanged,
+				skipped: record.skipped,
+				documents: record.documents,
+				issues: record.issues,
+				http_requests: record.httpRequests,
+				http_retries: record.httpRetries,
+				http_errors: record.httpErrors,
+			});
+		},
+		upsertDocuments: async (source, meetings, options) =>
+			upsertDocuments(source, meetings, options?.dryRun ?? false),
+		saveIssues: async (source, issues) => replaceIssues(source, issues),
+		// 並べ替えや一覧はSQLのクエリで作れるため保持しない
+		tidyMeetings: async () => {},
+		rebuildViews: async () => {},
+		listMeetings: async (source) =>
+			selectMeetings.all({ source_id: source.id }).map(toMeetingData),
+		listExecutions: async (source, limit) =>
+			selectExecutions.all({ source_id: source.id, limit }).map(
+				(row): ExecutionRecord => ({
+					runId: row.run_id,
+					sourceId: row.source_id,
+					startedAt: row.executed_at,
+					finishedAt: row.finished_at,
+					durationMs: row.duration_ms,
+					status: row.status === "失敗" ? "失敗" : "成功",
+					scraped: row.scraped,
+					inserted: row.inserted,
+					updated: row.updated,
+					unchanged: row.unchanged,
+					skipped: row.skipped,
+					documents: row.documents,
+					issues: row.issues,
+					httpRequests: row.http_requests,
+					httpRetries: row.http_retries,
+					httpErrors: row.http_errors,
+					errorDetail: row.error_detail === "-" ? "" : row.error_detail,
+				}),
+			),
+		listRevisions: (source, detailUrl) =>
+			selectRevisions
+				.all({ source_id: source.id, detail_url: detailUrl })
+				.map((row) => ({
+					recordedAt: row.recorded_at,
+					status: row.status as MeetingStatus,
+					meeting: toMeetingData(row),
+				})),
+	};
+}
@@ -0,0 +1,44 @@
+import { describe, expect, test } from "bun:test";
+import type { MeetingStatus } from "@/definitions/types";
+import { resolveStatus } from "./status";
+
+const TODAY = "2026-10-19";
+
+describe("resolveStatus", () => {
+	test.each([
+		// [開催日, 掲載中, 以前のステータス, 期待値]
+		["2026-10-27", true, undefined, "予定"],
+		["2026-10-19", true, "予定", "予定"],
+		["2026-10-19", false, "予定", "中止の可能性"],
+		["2026-10-18", true, "予定", "開催済"],
+		["2026-10-18", false, "予定", "開催済"],
+		["2026-10-18", false, "中止の可能性", "中止の可能性"],
+		["2026-10-18", true, "中止の可能性", "開催済"],
+		["調整中", true, undefined, "予定"],
+		["調整中", false, "予定", "掲載終了"],
+	] as const)("%s (掲載中: %s, 以前: %s) -> %s", (date, listed, previousStatus, expected) => {
+		expect(
+			resolveStatus({
+				date,
+				listed,
+				cancelNotice: "",
+				previousStatus,
+				today: TODAY,
+			}),
+		).toBe(expected as MeetingStatus);
+	});
+
+	test("中止・延期の告知がある場合は開催日や掲載にかかわらず中止の可能性とする", () => {
+		for (const date of ["2026-10-27", "2026-10-01", "調整中"]) {
+			expect(
+				resolveStatus({
+					date,
+					listed: true,
+					cancelNotice: "延期",
+					previousStatus: "予定",
+					today: TODAY,
+				}),
+			).toBe("中止の可能性");
+		}
+	});
+});
@@ -0,0 +1,38 @@
+import type { CancelNotice, MeetingStatus } from "@/definitions/types";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * 会議のステータスを判定
+ * - 中止・延期の告知がある、または開催前に一覧から消えた: 中止の可能性
+ * - 一覧に掲載中で開催日が今日以降: 予定
+ * - 開催日を過ぎた: 開催済 (一覧になく中止の可能性と判定済みの場合はそのまま)
+ * - 開催日が不明なまま一覧から消えた: 掲載終了
+ */
+export function resolveStatus(params: {
+	date: string; // 開催日 (YYYY-MM-DD形式)
+	listed: boolean; // 今回の取得結果に含まれているか
+	cancelNotice: CancelNotice;
+	previousStatus: string | undefined; // シート上の現在のステータス
+	today: string; // 今日の日付 (JST, YYYY-MM-DD形式)
+}): MeetingStatus {
+	const { date, listed, cancelNotice, previousStatus, today } = params;
+
+	if (cancelNotice) {
+		return "中止の可能性";
+	}
+
+	if (!DATE_PATTERN.test(date)) {
+		return listed ? "予定" : "掲載終了";
+	}
+
+	if (date >= today) {
+		return listed ? "予定" : "中止の可能性";
+	}
+
+	if (!listed && previousStatus === "中止の可能性") {
+		return "中止の可能性";
+	}
+
+	return "開催済";
+}
@@ -0,0 +1,168 @@
+import { afterAll, afterEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { MeetingData } from "@/definitions/types";
+import {
+	isRelevant,
+	loadWatchlist,
+	matchTags,
+	tagMeetings,
+	type Watchlist,
+} from "./index";
+
+const TEMP_DIR = mkdtempSync(join(tmpdir(), "watchlist-"));
+
+afterEach(() => {
+	delete process.env.WATCHLIST_PATH;
+});
+
+afterAll(() => {
+	rmSync(TEMP_DIR, { recursive: true, force: true });
+});
+
+/**
+ * 設定ファイルを書き出してウォッチリストを読み込む
+ */
+function load(config: unknown): Promise<Watchlist> {
+	const path = join(TEMP_DIR, "watchlist.json");
+	writeFileSync(path, JSON.stringify(config));
+	process.env.WATCHLIST_PATH = path;
+	return loadWatchlist();
+}
+
+function meeting(name: string, agenda = ""): MeetingData {
+	return {
+		name,
+		date: "2026-10-27",
+		time: "",
+		startTime: "",
+		endTime: "",
+		allDay: true,
+		agenda,
+		detailUrl: "https://www.meti.go.jp/shingikai/001.html",
+		cancelNotice: "",
+		venue: "",
+		format: "",
+		livestreamUrl: "",
+		viewingDeadline: "",
+	};
+}
+
+describe("loadWatchlist", () => {
+	test("ファイルがない場合は空のウォッチリストを返す", async () => {
+		process.env.WATCHLIST_PATH = join(TEMP_DIR, "missing.json");
+
+		expect(await loadWatchlist()).toEqual({
+			filterNotify: false,
+			filterExport: false,
+			entries: [],
+		});
+	});
+
+	test("絞り込みの設定を読み込む", async () => {
+		const watchlist = await load({
+			filter: { notify: true },
+			entries: [{ label: "容量市場", keywords: ["容量市場"] }],
+		});
+
+		expect(watchlist.filterNotify).toBe(true);
+		expect(watchlist.filterExport).toBe(false);
+	});
+
+	test.each([
+		[[], "watchlist must be an object"],
+		[{ filter: {} }, "entries is required"],
+		[{ entries: [{ keywords: ["系統"] }] }, "entries[0].label is required"],
+		[
+			{ entries: [{ label: "系統", patterns: "系統" }] },
+			"entries[0].patterns must be an array of strings",
+		],
+		[
+			{ entries: [{ label: "系統", patterns: ["系統("] }] },
+			"Invalid regular expression",
+		],
+	])("不正な設定はファイルのパスを含めてエラーにする: %j", async (config, message) => {
+		const error = await load(config).catch((error: Error) => error);
+
+		expect(error).toBeInstanceOf(Error);
+		expect((error as Error).message).toContain(
+			`Invalid watchlist ${join(TEMP_DIR, "watchlist.json")}`,
+		);
+		expect((error as Error).message).toContain(message);
+	});
+});
+
+describe("matchTags", () => {
+	test("全角・半角と英字の大文字・小文字を区別せずにキーワードを照合する", async () => {
+		const watchlist = await load({
+			entries: [
+				{ label: "LNG", keywords: ["ｌｎｇ"] },
+				{ label: "再エネ", keywords: ["再エネ", "再生可能エネルギー"] },
+			],
+		});
+
+		expect(
+			matchTags(
+				meeting("LNG調達に関する検討会", "再生可能エネルギーの導入"),
+				watchlist,
+			),
+		).toEqual(["LNG", "再エネ"]);
+	});
+
+	test("正規表現の大文字のクラス (\\D など) の意味を変えずに照合する", async () => {
+		const watchlist = await load({
+			entries: [
+				{ label: "第N回以外", patterns: ["^\\D+$"] },
+				{ label: "GX", patterns: ["gx\\S*"] },
+			],
+		});
+
+		expect(matchTags(meeting("GX実行会議"), watchlist)).toEqual([
+			"第N回以外",
+			"GX",
+		]);
+		expect(matchTags(meeting("第3回 GX実行会議"), watchlist)).toEqual(["GX"]);
+	});
+
+	test("否定先読みの正規表現で会議名と議題を照合する", async () => {
+		const watchlist = await load({
+			entries: [{ label: "系統", patterns: ["系統(?!的)"] }],
+		});
+
+		expect(matchTags(meeting("広域系統整備委員会"), watchlist)).toEqual([
+			"系統",
+		]);
+		expect(
+			matchTags(meeting("第1回 検討会", "系統的な整理について"), watchlist),
+		).toEqual([]);
+	});
+});
+
+describe("tagMeetings / isRelevant", () => {
+	test("一致したラベルを関連タグとして付与し、タグのある会議のみを対象とする", async () => {
+		const watchlist = await load({
+			entries: [{ label: "容量市場", keywords: ["容量市場"] }],
+		});
+
+		const [matched, unmatched] = tagMeetings(
+			[meeting("容量市場の在り方等に関する検討会"), meeting("省エネ小委員会")],
+			watchlist,
+		);
+
+		expect(matched?.tags).toEqual(["容量市場"]);
+		expect(unmatched?.tags).toEqual([]);
+		expect(isRelevant(matched as MeetingData, watchlist)).toBe(true);
+		expect(isRelevant(unmatched as MeetingData, watchlist)).toBe(false);
+	});
+
+	test("ウォッチリストが空の場合はすべての会議を対象とする", () => {
+		expect(
+			isRelevant(meeting("省エネ小委員会"), {
+				filterNotify: true,
+				filterExport: true,
+				entries: [],
+			}),
+		).toBe(true);
+	});
+});
@@ -0,0 +1,159 @@
+import { readFile } from "node:fs/promises";
+import type { MeetingData } from "@/definitions/types";
+
+const DEFAULT_WATCHLIST_PATH = "watchlist.json";
+
+/**
+ * ウォッチリストの設定ファイルの形式
+ */
+interface WatchlistConfig {
+	filter?: {
+		notify?: boolean; // 通知を一致した会議に限定する
+		export?: boolean; // カレンダー出力を一致した会議に限定する
+	};
+	entries: Array<{
+		label: string; // 関連タグに書き込むラベル
+		keywords?: string[]; // 部分一致するキーワード
+		patterns?: string[]; // 正規表現
+	}>;
+}
+
+/**
+ * 照合用に変換済みのウォッチリスト
+ */
+export interface Watchlist {
+	filterNotify: boolean;
+	filterExport: boolean;
+	entries: Array<{ label: string; matchers: RegExp[] }>;
+}
+
+const EMPTY_WATCHLIST: Watchlist = {
+	filterNotify: false,
+	filterExport: false,
+	entries: [],
+};
+
+/**
+ * 全角・半角の揺れをなくして照合用に正規化
+ * 英字の大文字・小文字は正規表現の i フラグで区別しない
+ * (小文字にすると正規表現の \D \S \W \B などの意味が変わるため)
+ */
+function normalizeText(text: string): string {
+	return text.normalize("NFKC");
+}
+
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function getWatchlistPath() {
+	return process.env.WATCHLIST_PATH || DEFAULT_WATCHLIST_PATH;
+}
+
+/**
+ * ウォッチリストを読み込む (WATCHLIST_PATH、未設定の場合は watchlist.json)
+ * ファイルがない場合は空のウォッチリストを返す
+ */
+export async function loadWatchlist(): Promise<Watchlist> {
+	const path = getWatchlistPath();
+
+	let text: string;
+	try {
+		text = await readFile(path, "utf-8");
+	} catch {
+		return EMPTY_WATCHLIST;
+	}
+
+	try {
+		return compileWatchlist(validateConfig(JSON.parse(text)));
+	} catch (error) {
+		throw new Error(
+			`Invalid watchlist ${path}: ${error instanceof Error ? error.message : error}`,
+		);
+	}
+}
+
+function isStringArray(value: unknown): value is string[] {
+	return (
+		Array.isArray(value) && value.every((item) => typeof item === "string")
+	);
+}
+
+/**
+ * 設定ファイルの形式を検証
+ */
+function validateConfig(value: unknown): WatchlistConfig {
+	if (typeof value !== "object" || value === null || Array.isArray(value)) {
+		throw new Error("watchlist must be an object");
+	}
+	const { entries } = value as Record<string, unknown>;
+	if (!Array.isArray(entries)) {
+		throw new Error("entries is required");
+	}
+	entries.forEach((entry, index) => {
+		if (typeof entry?.label !== "string" || !entry.label) {
+			throw new Error(`entries[${index}].label is required`);
+		}
+		for (const key of ["keywords", "patterns"]) {
+			if (entry[key] !== undefined && !isStringArray(entry[key])) {
+				throw new Error(`entries[${index}].${key} must be an array of strings`);
+			}
+		}
+	});
+	return value as WatchlistConfig;
+}
+
+/**
+ * 設定を照合用に変換 (キーワード・正規表現とも正規化後の文字列に対して大文字・小文字を区別せず照合する)
+ */
+function compileWatchlist(config: WatchlistConfig): Watchlist {
+	return {
+		filterNotify: config.filter?.notify ?? false,
+		filterExport: config.filter?.export ?? false,
+		entries: config.entries.map(({ label, keywords = [], patterns = [] }) => ({
+			label,
+			matchers: [
+				...keywords.map(
+					(keyword) => new RegExp(escapeRegExp(normalizeText(keyword)), "i"),
+				),
+				...patterns.map((pattern) => new RegExp(normalizeText(pattern), "i")),
+			],
+		})),
+	};
+}
+
+/**
+ * 会議名と議題をウォッチリストと照合し、一致したラベルを返す
+ */
+export function matchTags(
+	meeting: MeetingData,
+	watchlist: Watchlist,
+): string[] {
+	const text = normalizeText(`${meeting.name}\n${meeting.agenda}`);
+	return watchlist.entries
+		.filter(({ matchers }) => matchers.some((matcher) => matcher.test(text)))
+		.map(({ label }) => label);
+}
+
+/**
+ * 会議データに関連タグを付与
+ */
+export function tagMeetings(
+	meetings: MeetingData[],
+	watchlist: Watchlist,
+): MeetingData[] {
+	return meetings.map((meeting) => ({
+		...meeting,
+		tags: matchTags(meeting, watchlist),
+	}));
+}
+
+/**
+ * 関連タグが付いているか (ウォッチリストが空の場合はすべて対象とする)
+ */
+export function isRelevant(
+	meeting: MeetingData,
+	watchlist: Watchlist,
+): boolean {
+	return watchlist.entries.length === 0 || (meeting.tags ?? []).length > 0;
+}
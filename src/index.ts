@@ -1,91 +1,144 @@
-import { scrapeMeetings as scrapeMetiMeetings } from "./features/scrape/meti/scraper";
-import { scrapeMeetings as scrapeOcctoMeetings } from "./features/scrape/occto/scraper";
-import { logExecution, upsertMeetings } from "./features/sheets/editor";
-
-const METI_SHEET_NAME = "経済産業省";
-const METI_HISTORY_SHEET_NAME = "経済産業省_実行履歴";
-const OCCTO_SHEET_NAME = "電力広域的運営推進機関";
-const OCCTO_HISTORY_SHEET_NAME = "電力広域的運営推進機関_実行履歴";
-
-async function main() {
-	console.log("🚀 Start updating...");
-	console.log("----------------------------------------");
-
-	try {
-		// 1. 経済産業省 (METI) のスクレイピング
-		console.log("\n📋 Scraping METI meetings...");
-		const metiMeetings = await scrapeMetiMeetings();
-
-		if (metiMeetings.length === 0) {
-			console.warn("⚠️ No METI meetings found");
-			await logExecution(METI_HISTORY_SHEET_NAME, "成功", "0件");
-		} else {
-			console.log(`✅ Scraped ${metiMeetings.length} METI meetings`);
-
-			// Google Sheetsに書き込み
-			console.log("📝 Updating METI Google Sheets...");
-			const { updated, inserted } = await upsertMeetings(
-				metiMeetings,
-				METI_SHEET_NAME,
-			);
+import { parseArgs } from "node:util";
+import { runHistory } from "./commands/history";
+import {
+	runScrape,
+	SCRAPE_FORMATS,
+	type ScrapeFormat,
+} from "./commands/scrape";
+import { runSync } from "./commands/sync";
+import type { MeetingSource } from "./definitions/types";
+import { notifyFailure } from "./features/notify/webhook";
+import { parseMonth } from "./features/scrape/range";
+import { loadSources, selectSources } from "./features/scrape/registry";
+
+/**
+ * 使い方 (取得元の一覧は読み込んだ定義ファイルから作る)
+ */
+function getUsage(sources: MeetingSource[]): string {
+	return `Usage: bun run src/index.ts [command] [options]
+
+Commands:
+  sync      審議会スケジュールを取得して保存先に同期する (既定)
+  scrape    審議会スケジュールを取得して標準出力に表示する
+  history   最近の実行履歴を表示する
+  backfill  指定した期間の過去の審議会スケジュールを取得して保存先に取り込む
+
+Options:
+  --source <id>     対象の取得元 (${sources.map((source) => source.id).join(", ")})
+  --dry-run         [sync, backfill] 保存先に書き込まず、追加・更新される内容を表示する
+  --refresh         [sync, scrape, backfill] 詳細ページのキャッシュを使わずに再取得する
+  --from <YYYY-MM>  [backfill] 取り込む期間の開始月
+  --to <YYYY-MM>    [backfill] 取り込む期間の終了月 (既定: 開始月)
+  --format <format> [scrape] 出力形式 (${SCRAPE_FORMATS.join(", ")}、既定: table)
+  --limit <n>       [history] 表示する件数 (既定: 10)
+  -h, --help        このヘルプを表示する
+`;
+}
 
-			console.log(
-				`✨ METI sheets updated: ${updated} updated, ${inserted} inserted`,
-			);
+/**
+ * コマンドライン引数を解釈して実行する処理を返す
+ * 不明なコマンド・取得元・出力形式など引数の誤りは、実行前にここで例外とする
+ */
+function parseCommand(
+	args: string[],
+	allSources: MeetingSource[],
+): () => Promise<number> {
+	const { values, positionals } = parseArgs({
+		args,
+		options: {
+			source: { type: "string" },
+			"dry-run": { type: "boolean", default: false },
+			refresh: { type: "boolean", default: false },
+			format: { type: "string", default: "table" },
+			limit: { type: "string", default: "10" },
+			from: { type: "string" },
+			to: { type: "string" },
+			help: { type: "boolean", short: "h", default: false },
+		},
+		allowPositionals: true,
+	});
+
+	if (values.help) {
+		return async () => {
+			console.log(getUsage(allSources));
+			return 0;
+		};
+	}
 
-			// 実行履歴を記録
-			const processedCount = `更新${updated}件、新規${inserted}件`;
-			await logExecution(METI_HISTORY_SHEET_NAME, "成功", processedCount);
+	const command = positionals[0] ?? "sync";
+	const sources = selectSources(allSources, values.source);
+
+	switch (command) {
+		case "sync":
+			return () =>
+				runSync({
+					sources,
+					allSources,
+					dryRun: values["dry-run"],
+					refresh: values.refresh,
+				});
+		case "scrape": {
+			const format = values.format as ScrapeFormat;
+			if (!SCRAPE_FORMATS.includes(format)) {
+				throw new Error(`Unknown format: ${values.format}`);
+			}
+			return () => runScrape({ sources, format, refresh: values.refresh });
 		}
-
-		// 2. 電力広域的運営推進機関 (OCCTO) のスクレイピング
-		console.log("\n📋 Scraping OCCTO meetings...");
-		const occtoMeetings = await scrapeOcctoMeetings();
-
-		if (occtoMeetings.length === 0) {
-			console.warn("⚠️ No OCCTO meetings found");
-			await logExecution(OCCTO_HISTORY_SHEET_NAME, "成功", "0件");
-		} else {
-			console.log(`✅ Scraped ${occtoMeetings.length} OCCTO meetings`);
-
-			// Google Sheetsに書き込み
-			console.log("📝 Updating OCCTO Google Sheets...");
-			const { updated, inserted } = await upsertMeetings(
-				occtoMeetings,
-				OCCTO_SHEET_NAME,
-			);
-
-			console.log(
-				`✨ OCCTO sheets updated: ${updated} updated, ${inserted} inserted`,
-			);
-
-			// 実行履歴を記録
-			const processedCount = `更新${updated}件、新規${inserted}件`;
-			await logExecution(OCCTO_HISTORY_SHEET_NAME, "成功", processedCount);
+		case "backfill": {
+			if (!values.from) {
+				throw new Error("--from is required for backfill");
+			}
+			const from = parseMonth(values.from);
+			const to = values.to ? parseMonth(values.to) : from;
+			if (from > to) {
+				throw new Error(`Invalid range: ${from} to ${to}`);
+			}
+			return () =>
+				runSync({
+					sources,
+					allSources,
+					dryRun: values["dry-run"],
+					refresh: values.refresh,
+					range: { from, to },
+				});
 		}
+		case "history": {
+			const limit = Number.parseInt(values.limit, 10);
+			if (!Number.isInteger(limit) || limit <= 0) {
+				throw new Error(`Invalid limit: ${values.limit}`);
+			}
+			return () => runHistory({ sources, limit });
+		}
+		default:
+			throw new Error(`Unknown command: ${command}`);
+	}
+}
 
-		console.log("----------------------------------------");
-		console.log("🎉 All scraping completed successfully!");
-		console.log(
-			`📊 Total: ${metiMeetings.length} METI meetings, ${occtoMeetings.length} OCCTO meetings`,
-		);
-		console.log("----------------------------------------");
+async function main(): Promise<number> {
+	const allSources = loadSources();
+
+	// 引数の誤りは実行の失敗として通知せず、使い方を表示して終了する
+	let run: () => Promise<number>;
+	try {
+		run = parseCommand(process.argv.slice(2), allSources);
 	} catch (error) {
-		console.error("\n❌ Scraping failed!");
-		console.error("Error details:", error);
+		console.error(`${error instanceof Error ? error.message : error}\n`);
+		console.error(getUsage(allSources));
+		return 2;
+	}
 
-		// エラーを実行履歴に記録 (両方のシートに記録)
-		const errorMessage = error instanceof Error ? error.message : String(error);
+	return run();
+}
+
+main()
+	.then((exitCode) => process.exit(exitCode))
+	.catch(async (error) => {
+		const message = error instanceof Error ? error.message : String(error);
+		console.error(message);
 		try {
-			await logExecution(METI_HISTORY_SHEET_NAME, "失敗", errorMessage);
-			await logExecution(OCCTO_HISTORY_SHEET_NAME, "失敗", errorMessage);
-			console.log("📝 Error logged to history sheets");
-		} catch (logError) {
-			console.error("Failed to log error to history sheets:", logError);
+			await notifyFailure(message);
+		} catch (notifyError) {
+			console.error("Failed to send notification:", notifyError);
 		}
-
 		process.exit(1);
-	}
-}
-
-main();
+	});
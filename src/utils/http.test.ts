@@ -0,0 +1,189 @@
+import {
+	afterAll,
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	setSystemTime,
+	spyOn,
+	test,
+} from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	fetchResource,
+	getHttpStats,
+	getRetryDelay,
+	resetHttpStats,
+} from "./http";
+
+const TEMP_DIR = mkdtempSync(join(tmpdir(), "http-"));
+const ROOT_DIR = join(import.meta.dir, "../..");
+
+// 取得先のサイトの代わりに、テストごとに決めたレスポンスを順に返すローカルサーバー
+// (受け取ったリクエストのヘッダーを記録する)
+let responses: (() => Response)[] = [];
+const requests: Headers[] = [];
+const server = Bun.serve({
+	port: 0,
+	fetch(request) {
+		requests.push(new Headers(request.headers));
+		const next = responses.shift();
+		return next ? next() : new Response("unexpected", { status: 500 });
+	},
+});
+const URL = `http://localhost:${server.port}/shingikai/001.html`;
+
+// リトライのたびに待機しないよう、Retry-After で待機時間を0にする
+function retryableResponse(status: number): () => Response {
+	return () => new Response("", { status, headers: { "Retry-After": "0" } });
+}
+
+beforeEach(() => {
+	responses = [];
+	requests.length = 0;
+	resetHttpStats();
+	process.env.HTTP_CACHE_DIR = join(TEMP_DIR, "cache");
+	process.env.HTTP_MIN_INTERVAL_MS = "0";
+});
+
+afterEach(() => {
+	delete process.env.HTTP_CACHE_DIR;
+	delete process.env.HTTP_MIN_INTERVAL_MS;
+	delete process.env.HTTP_MAX_RETRIES;
+	delete process.env.HTTP_MODE;
+	delete process.env.HTTP_FIXTURES_DIR;
+});
+
+afterAll(() => {
+	server.stop(true);
+	rmSync(TEMP_DIR, { recursive: true, force: true });
+});
+
+describe("getRetryDelay", () => {
+	afterEach(() => {
+		setSystemTime();
+	});
+
+	test("Retry-After がない場合は試行回数に応じて指数バックオフする", () => {
+		const random = spyOn(Math, "random").mockReturnValue(0.5);
+
+		expect(getRetryDelay(0, null)).toBe(1_500);
+		expect(getRetryDelay(1, null)).toBe(2_500);
+		expect(getRetryDelay(3, null)).toBe(8_500);
+		// 上限は60秒
+		expect(getRetryDelay(10, null)).toBe(60_000);
+
+		random.mockRestore();
+	});
+
+	test("Retry-After の秒数を優先する", () => {
+		expect(getRetryDelay(3, "5")).toBe(5_000);
+		expect(getRetryDelay(0, "0")).toBe(0);
+		expect(getRetryDelay(0, "3600")).toBe(60_000);
+	});
+
+	test("Retry-After のHTTP日付までの時間を待機する", () => {
+		setSystemTime(new Date("2026-10-19T00:00:00Z"));
+
+		expect(getRetryDelay(0, "Mon, 19 Oct 2026 00:00:30 GMT")).toBe(30_000);
+		// 過去の日付はすぐにリトライする
+		expect(getRetryDelay(0, "Mon, 19 Oct 2026 00:00:00 GMT")).toBe(0);
+	});
+
+	test("解釈できない Retry-After は指数バックオフにする", () => {
+		const random = spyOn(Math, "random").mockReturnValue(0);
+
+		expect(getRetryDelay(1, "soon")).toBe(2_000);
+
+		random.mockRestore();
+	});
+});
+
+describe("fetchResource", () => {
+	test("5xx・429 の場合はリトライし、成功したレスポンスを返す", async () => {
+		responses = [
+			retryableResponse(503),
+			retryableResponse(429),
+			() => new Response("<html>ok</html>"),
+		];
+
+		const result = await fetchResource(URL, { conditional: false });
+
+		expect(result).toEqual({
+			body: "<html>ok</html>",
+			status: 200,
+			notModified: false,
+			retries: 2,
+		});
+		expect(getHttpStats()).toEqual({
+			requests: 3,
+			retries: 2,
+			notModified: 0,
+			errors: 0,
+		});
+		expect(requests[0]?.get("User-Agent")).toBeTruthy();
+	});
+
+	test("最大リトライ回数を超えた場合はエラーにする", async () => {
+		process.env.HTTP_MAX_RETRIES = "1";
+		responses = [retryableResponse(500), retryableResponse(500)];
+
+		await expect(fetchResource(URL, { conditional: false })).rejects.toThrow(
+			`Failed to fetch ${URL}: 500`,
+		);
+		expect(requests).toHaveLength(2);
+		expect(getHttpStats()).toMatchObject({ retries: 1, errors: 1 });
+	});
+
+	test("4xx (429以外) はリトライしない", async () => {
+		responses = [() => new Response("", { status: 404 })];
+
+		await expect(fetchResource(URL, { conditional: false })).rejects.toThrow(
+			`Failed to fetch ${URL}: 404`,
+		);
+		expect(requests).toHaveLength(1);
+	});
+
+	test("ETag があれば条件付きリクエストを行い、304 の場合は保存した本文を返す", async () => {
+		responses = [
+			() => new Response("<html>v1</html>", { headers: { ETag: '"v1"' } }),
+			() => new Response(null, { status: 304 }),
+		];
+
+		await fetchResource(URL);
+		const result = await fetchResource(URL);
+
+		expect(requests[1]?.get("If-None-Match")).toBe('"v1"');
+		expect(result).toMatchObject({
+			body: "<html>v1</html>",
+			status: 304,
+			notModified: true,
+		});
+		expect(getHttpStats().notModified).toBe(1);
+	});
+});
+
+describe("replay", () => {
+	beforeEach(() => {
+		process.env.HTTP_MODE = "replay";
+		process.env.HTTP_FIXTURES_DIR = join(ROOT_DIR, "fixtures/http");
+	});
+
+	test("記録済みのレスポンスを返し、ネットワークにはアクセスしない", async () => {
+		const result = await fetchResource(
+			"https://www.emsc.meti.go.jp/activity/kaisai.html",
+		);
+
+		expect(result.status).toBe(200);
+		expect(result.body).toContain("<html");
+		expect(requests).toHaveLength(0);
+	});
+
+	test("記録がない場合はエラーにする", async () => {
+		await expect(fetchResource(URL)).rejects.toThrow(
+			`Failed to fetch ${URL}: no recorded response`,
+		);
+	});
+});
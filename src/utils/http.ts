@@ -1,20 +1,440 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
 import { USER_AGENT } from "@/definitions/constants";
 
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_MIN_INTERVAL_MS = 500;
+const DEFAULT_CACHE_DIR = ".cache/http";
+const DEFAULT_FIXTURES_DIR = "fixtures/http";
+const RETRY_BASE_DELAY_MS = 1_000;
+const RETRY_MAX_DELAY_MS = 60_000;
+
+/**
+ * HTTP取得のオプション (未指定の項目は環境変数または既定値を使う)
+ */
+export interface FetchOptions {
+	timeoutMs?: number; // 1回のリクエストのタイムアウト (HTTP_TIMEOUT_MS)
+	maxRetries?: number; // 5xx/429/ネットワークエラー時の最大リトライ回数 (HTTP_MAX_RETRIES)
+	minIntervalMs?: number; // 同一ホストへのリクエスト間隔 (HTTP_MIN_INTERVAL_MS)
+	conditional?: boolean; // ETag/Last-Modified による条件付きリクエストを行うか
+}
+
+/**
+ * HTTP取得の結果
+ */
+export interface FetchResult {
+	body: string;
+	status: number; // 最終的なステータスコード (304の場合はキャッシュを返す)
+	notModified: boolean; // 304 Not Modified でキャッシュを返した場合は true
+	retries: number; // リトライした回数
+}
+
+/**
+ * HTTP取得の集計 (ログ出力用)
+ */
+export interface HttpStats {
+	requests: number; // リクエスト数 (リトライを含む)
+	retries: number; // リトライ回数
+	notModified: number; // 304 Not Modified の件数
+	errors: number; // 最終的に失敗した件数
+}
+
+/**
+ * HTTP取得のモード (環境変数 HTTP_MODE)
+ * - live (既定): 通常どおり取得
+ * - record: 取得したレスポンスをフィクスチャとして保存
+ * - replay: 保存済みのフィクスチャを返し、ネットワークにはアクセスしない
+ */
+export type HttpMode = "live" | "record" | "replay";
+
+/**
+ * 記録モードで保存するレスポンス
+ * テスト用に手作業で作成したフィクスチャは recordedAt の代わりに synthetic を付ける
+ */
+interface RecordedResponse {
+	url: string;
+	status: number;
+	recordedAt?: string; // 記録日時 (記録モードで保存した場合)
+	synthetic?: boolean; // 実際のレスポンスではなく手作業で作成した場合は true
+	body: string;
+}
+
+/**
+ * 条件付きリクエスト用にディスクへ保存するキャッシュ
+ */
+interface ValidatorCacheEntry {
+	url: string;
+	etag?: string;
+	lastModified?: string;
+	body: string;
+	fetchedAt: string;
+}
+
+const stats: HttpStats = { requests: 0, retries: 0, notModified: 0, errors: 0 };
+
+// ホストごとの次にリクエストしてよい時刻
+const nextRequestAt = new Map<string, number>();
+
+function readNumberEnv(name: string, defaultValue: number): number {
+	const value = process.env[name];
+	if (!value) {
+		return defaultValue;
+	}
+	const parsed = Number.parseInt(value, 10);
+	return Number.isNaN(parsed) ? defaultValue : parsed;
+}
+
+function getCacheDir() {
+	return process.env.HTTP_CACHE_DIR || DEFAULT_CACHE_DIR;
+}
+
+function getFixturesDir() {
+	return process.env.HTTP_FIXTURES_DIR || DEFAULT_FIXTURES_DIR;
+}
+
+/**
+ * 現在のHTTP取得モードを取得
+ */
+export function getHttpMode(): HttpMode {
+	const mode = process.env.HTTP_MODE || "live";
+	if (mode !== "live" && mode !== "record" && mode !== "replay") {
+		throw new Error(`Unknown HTTP_MODE: ${mode}`);
+	}
+	return mode;
+}
+
+function sleep(ms: number) {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * 現在までのHTTP取得の集計を取得
+ */
+export function getHttpStats(): HttpStats {
+	return { ...stats };
+}
+
+/**
+ * HTTP取得の集計をリセット
+ */
+export function resetHttpStats(): void {
+	stats.requests = 0;
+	stats.retries = 0;
+	stats.notModified = 0;
+	stats.errors = 0;
+}
+
+/**
+ * 同一ホストへのリクエストが minIntervalMs 以上空くまで待機
+ */
+async function waitForHost(url: string, minIntervalMs: number) {
+	const host = new URL(url).host;
+	const now = Date.now();
+	const scheduledAt = Math.max(now, nextRequestAt.get(host) ?? 0);
+	nextRequestAt.set(host, scheduledAt + minIntervalMs);
+
+	if (scheduledAt > now) {
+		await sleep(scheduledAt - now);
+	}
+}
+
+/**
+ * Retry-Afterヘッダー (秒数またはHTTP日付) を待機ミリ秒に変換
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+	if (!value) {
+		return undefined;
+	}
+
+	const seconds = Number(value);
+	if (!Number.isNaN(seconds)) {
+		return Math.max(0, seconds * 1000);
+	}
+
+	const date = Date.parse(value);
+	if (!Number.isNaN(date)) {
+		return Math.max(0, date - Date.now());
+	}
+
+	return undefined;
+}
+
+/**
+ * リトライまでの待機時間を計算 (Retry-Afterを優先し、なければ指数バックオフ)
+ */
+export function getRetryDelay(
+	attempt: number,
+	retryAfter: string | null,
+): number {
+	const delay =
+		parseRetryAfter(retryAfter) ??
+		RETRY_BASE_DELAY_MS * 2 ** attempt + Math.random() * RETRY_BASE_DELAY_MS;
+	return Math.min(delay, RETRY_MAX_DELAY_MS);
+}
+
+function isRetryableStatus(status: number): boolean {
+	return status === 429 || status >= 500;
+}
+
+function getCachePath(url: string): string {
+	const hash = createHash("sha1").update(url).digest("hex");
+	return join(getCacheDir(), `${hash}.json`);
+}
+
+async function readValidatorCache(
+	url: string,
+): Promise<ValidatorCacheEntry | undefined> {
+	try {
+		const text = await readFile(getCachePath(url), "utf-8");
+		return JSON.parse(text) as ValidatorCacheEntry;
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * フィクスチャの保存先 (ホストごとのディレクトリにURLのハッシュで保存)
+ */
+function getFixturePath(url: string): string {
+	const { host } = new URL(url);
+	const hash = createHash("sha1").update(url).digest("hex");
+	return join(getFixturesDir(), host, `${hash}.json`);
+}
+
+async function recordResponse(url: string, body: string): Promise<void> {
+	const path = getFixturePath(url);
+	const response: RecordedResponse = {
+		url,
+		status: 200,
+		recordedAt: new Date().toISOString(),
+		body,
+	};
+	await mkdir(dirname(path), { recursive: true });
+	await writeFile(path, `${JSON.stringify(response, null, 2)}\n`);
+}
+
+async function replayResponse(url: string): Promise<FetchResult> {
+	let text: string;
+	try {
+		text = await readFile(getFixturePath(url), "utf-8");
+	} catch {
+		stats.errors++;
+		throw new Error(`Failed to fetch ${url}: no recorded response`);
+	}
+
+	const recorded = JSON.parse(text) as RecordedResponse;
+	stats.requests++;
+	return {
+		body: recorded.body,
+		status: recorded.status,
+		notModified: false,
+		retries: 0,
+	};
+}
+
+async function writeValidatorCache(entry: ValidatorCacheEntry): Promise<void> {
+	try {
+		await mkdir(getCacheDir(), { recursive: true });
+		await writeFile(getCachePath(entry.url), JSON.stringify(entry));
+	} catch (error) {
+		console.warn(`Failed to write HTTP cache for ${entry.url}:`, error);
+	}
+}
+
+/**
+ * User-Agentを設定してリソースを取得
+ * タイムアウト、5xx/429/ネットワークエラー時のリトライ、ホストごとの間隔制御、
+ * ETag/Last-Modified による条件付きリクエストを行う
+ * HTTP_MODE に応じてレスポンスの記録・再生を行う
+ */
+export async function fetchResource(
+	url: string,
+	options: FetchOptions = {},
+): Promise<FetchResult> {
+	const mode = getHttpMode();
+	if (mode === "replay") {
+		return replayResponse(url);
+	}
+
+	const result = await fetchLive(url, options);
+	if (mode === "record") {
+		await recordResponse(url, result.body);
+	}
+	return result;
+}
+
+/**
+ * ネットワークからリソースを取得
+ */
+async function fetchLive(
+	url: string,
+	options: FetchOptions,
+): Promise<FetchResult> {
+	const timeoutMs =
+		options.timeoutMs ?? readNumberEnv("HTTP_TIMEOUT_MS", DEFAULT_TIMEOUT_MS);
+	const maxRetries =
+		options.maxRetries ??
+		readNumberEnv("HTTP_MAX_RETRIES", DEFAULT_MAX_RETRIES);
+	const minIntervalMs =
+		options.minIntervalMs ??
+		readNumberEnv("HTTP_MIN_INTERVAL_MS", DEFAULT_MIN_INTERVAL_MS);
+	const conditional = options.conditional ?? true;
+
+	const cached = conditional ? await readValidatorCache(url) : undefined;
+	const headers: Record<string, string> = { "User-Agent": USER_AGENT };
+	if (cached?.etag) {
+		headers["If-None-Match"] = cached.etag;
+	}
+	if (cached?.lastModified) {
+		headers["If-Modified-Since"] = cached.lastModified;
+	}
+
+	for (let attempt = 0; ; attempt++) {
+		await waitForHost(url, minIntervalMs);
+		stats.requests++;
+
+		let response: Response;
+		let body: string;
+		try {
+			response = await fetch(url, {
+				headers,
+				signal: AbortSignal.timeout(timeoutMs),
+			});
+			// 本文の読み込み中のタイムアウト・切断もリトライの対象とする
+			body = response.ok ? await response.text() : "";
+		} catch (error) {
+			// タイムアウトを含むネットワークエラー
+			if (attempt < maxRetries) {
+				stats.retries++;
+				const delay = getRetryDelay(attempt, null);
+				console.warn(
+					`Request to ${url} failed (${error instanceof Error ? error.message : error}), retrying in ${Math.round(delay)}ms`,
+				);
+				await sleep(delay);
+				continue;
+			}
+			stats.errors++;
+			throw new Error(
+				`Failed to fetch ${url}: ${error instanceof Error ? error.message : error}`,
+			);
+		}
+
+		if (response.status === 304 && cached) {
+			stats.notModified++;
+			return {
+				body: cached.body,
+				status: 304,
+				notModified: true,
+				retries: attempt,
+			};
+		}
+
+		if (isRetryableStatus(response.status) && attempt < maxRetries) {
+			stats.retries++;
+			const delay = getRetryDelay(attempt, response.headers.get("Retry-After"));
+			console.warn(
+				`Request to ${url} returned ${response.status}, retrying in ${Math.round(delay)}ms`,
+			);
+			await sleep(delay);
+			continue;
+		}
+
+		if (!response.ok) {
+			stats.errors++;
+			throw new Error(
+				`Failed to fetch ${url}: ${response.status} ${response.statusText}`,
+			);
+		}
+
+		// 検証用ヘッダーがある場合のみ、次回の条件付きリクエスト用に保存
+		const etag = response.headers.get("ETag") ?? undefined;
+		const lastModified = response.headers.get("Last-Modified") ?? undefined;
+		if (conditional && (etag || lastModified)) {
+			await writeValidatorCache({
+				url,
+				etag,
+				lastModified,
+				body,
+				fetchedAt: new Date().toISOString(),
+			});
+		}
+
+		return {
+			body,
+			status: response.status,
+			notModified: false,
+			retries: attempt,
+		};
+	}
+}
+
 /**
  * User-Agentを設定してHTMLを取得
  */
 export async function fetchWithUserAgent(url: string): Promise<string> {
-	const response = await fetch(url, {
-		headers: {
-			"User-Agent": USER_AGENT,
-		},
-	});
+	const { body } = await fetchResource(url);
+	return body;
+}
 
-	if (!response.ok) {
-		throw new Error(
-			`Failed to fetch ${url}: ${response.status} ${response.statusText}`,
-		);
-	}
+/**
+ * JSONをPOSTで送信 (Webhook通知用)
+ * タイムアウトと5xx/429/ネットワークエラー時のリトライを行う
+ * 取得とは別扱いのため、HTTP取得の集計や記録・再生の対象にはしない
+ */
+export async function postJson(
+	url: string,
+	payload: unknown,
+	options: Pick<FetchOptions, "timeoutMs" | "maxRetries"> = {},
+): Promise<void> {
+	const timeoutMs =
+		options.timeoutMs ?? readNumberEnv("HTTP_TIMEOUT_MS", DEFAULT_TIMEOUT_MS);
+	const maxRetries =
+		options.maxRetries ??
+		readNumberEnv("HTTP_MAX_RETRIES", DEFAULT_MAX_RETRIES);
+
+	for (let attempt = 0; ; attempt++) {
+		let response: Response;
+		try {
+			response = await fetch(url, {
+				method: "POST",
+				headers: {
+					"Content-Type": "application/json",
+					"User-Agent": USER_AGENT,
+				},
+				body: JSON.stringify(payload),
+				signal: AbortSignal.timeout(timeoutMs),
+			});
+		} catch (error) {
+			if (attempt < maxRetries) {
+				const delay = getRetryDelay(attempt, null);
+				console.warn(
+					`POST to ${url} failed (${error instanceof Error ? error.message : error}), retrying in ${Math.round(delay)}ms`,
+				);
+				await sleep(delay);
+				continue;
+			}
+			throw new Error(
+				`Failed to post ${url}: ${error instanceof Error ? error.message : error}`,
+			);
+		}
 
-	return await response.text();
+		if (isRetryableStatus(response.status) && attempt < maxRetries) {
+			const delay = getRetryDelay(attempt, response.headers.get("Retry-After"));
+			console.warn(
+				`POST to ${url} returned ${response.status}, retrying in ${Math.round(delay)}ms`,
+			);
+			await sleep(delay);
+			continue;
+		}
+
+		if (!response.ok) {
+			throw new Error(
+				`Failed to post ${url}: ${response.status} ${response.statusText}`,
+			);
+		}
+
+		return;
+	}
 }
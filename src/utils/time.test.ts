@@ -0,0 +1,113 @@
+import { describe, expect, test } from "bun:test";
+import {
+	getJstDateString,
+	parseJapaneseDate,
+	parseTimeRange,
+	resolveEndDateTime,
+} from "./time";
+
+describe("parseTimeRange", () => {
+	test.each([
+		[
+			"2026年1月19日(月)10時00分～12時00分",
+			"10:00",
+			"12:00",
+			"10時00分～12時00分",
+		],
+		["１０：００～１２：００", "10:00", "12:00", "10:00～12:00"],
+		["15:00〜17:00", "15:00", "17:00", "15:00〜17:00"],
+		["14時から16時まで", "14:00", "16:00", "14時から16時"],
+		["10時半－11時半", "10:30", "11:30", "10時半-11時半"],
+		["午後1時30分～3時", "13:30", "15:00", "午後1時30分～3時"],
+		["午前10時～午後0時30分", "10:00", "12:30", "午前10時～午後0時30分"],
+		["午前11時～1時", "11:00", "13:00", "午前11時～1時"],
+		["午前12時～午前1時", "00:00", "01:00", "午前12時～午前1時"],
+		["22時～24時", "22:00", "23:59", "22時～24時"],
+	])("%s -> %s〜%s", (text, startTime, endTime, displayText) => {
+		expect(parseTimeRange(text)).toEqual({
+			startTime,
+			endTime,
+			allDay: false,
+			text: displayText,
+		});
+	});
+
+	test.each([
+		["午後1時30分から", "13:30", "午後1時30分"],
+		["令和8年11月5日（木曜日）15時30分～", "15:30", "15時30分"],
+		["13時", "13:00", "13時"],
+	])("終了時刻がない場合は空文字: %s", (text, startTime, displayText) => {
+		expect(parseTimeRange(text)).toEqual({
+			startTime,
+			endTime: "",
+			allDay: false,
+			text: displayText,
+		});
+	});
+
+	test.each([
+		"令和8年11月下旬（予定）",
+		"調整中",
+		"25時～26時",
+		"10時75分",
+	])("時刻がない・範囲外の場合は終日: %s", (text) => {
+		expect(parseTimeRange(text)).toEqual({
+			startTime: "",
+			endTime: "",
+			allDay: true,
+			text: undefined,
+		});
+	});
+});
+
+describe("parseJapaneseDate", () => {
+	test.each([
+		["2026年1月27日（火）10時00分～", "2026-01-27"],
+		["令和8年1月27日", "2026-01-27"],
+		["令和元年5月1日", "2019-05-01"],
+		["令和２年１２月１日", "2020-12-01"],
+		["日時：2026年 4月 1日", "2026-04-01"],
+		["1月27日", ""],
+		["平成31年4月30日", ""],
+	])("%s -> %s", (text, expected) => {
+		expect(parseJapaneseDate(text)).toBe(expected);
+	});
+});
+
+describe("resolveEndDateTime", () => {
+	test("終了時刻がある場合はそのまま", () => {
+		expect(resolveEndDateTime("2026-10-27", "10:00", "12:00")).toEqual({
+			date: "2026-10-27",
+			time: "12:00",
+		});
+	});
+
+	test("終了時刻がない・開始より前の場合は開始時刻", () => {
+		expect(resolveEndDateTime("2026-10-27", "10:00", "")).toEqual({
+			date: "2026-10-27",
+			time: "10:00",
+		});
+		expect(resolveEndDateTime("2026-10-27", "10:00", "09:00")).toEqual({
+			date: "2026-10-27",
+			time: "10:00",
+		});
+	});
+
+	test("24:00 は翌日の 00:00", () => {
+		expect(resolveEndDateTime("2026-12-31", "22:00", "24:00")).toEqual({
+			date: "2027-01-01",
+			time: "00:00",
+		});
+	});
+});
+
+describe("getJstDateString", () => {
+	test("UTCの15時以降はJSTの翌日", () => {
+		expect(getJstDateString(new Date("2026-10-18T14:59:59Z"))).toBe(
+			"2026-10-18",
+		);
+		expect(getJstDateString(new Date("2026-10-18T15:00:00Z"))).toBe(
+			"2026-10-19",
+		);
+	});
+});
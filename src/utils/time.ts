@@ -0,0 +1,157 @@
+import type { TimeRange } from "@/definitions/types";
+
+// 時刻の表記: "10時00分" / "10時" / "10時半" / "10:00" (午前/午後の接頭辞も許容)
+const CLOCK =
+	"(午前|午後)?\\s*(\\d{1,2})(?::(\\d{2})|時(?:(\\d{1,2})分|(半))?)";
+// 開始と終了の区切り: "～" "~" "〜" "－" "-" "ー" "から" など (全角はNFKCで半角化済み)
+const SEPARATOR = "\\s*(?:~|〜|-|−|‐|ー|から)\\s*";
+const TIME_RANGE_PATTERN = new RegExp(`${CLOCK}(?:${SEPARATOR}${CLOCK})?`);
+
+/**
+ * 時・分と午前/午後から HH:MM 形式の時刻を作成
+ * "24時" は日付をまたがないよう当日の "23:59" とする
+ * 範囲外の値の場合は undefined を返す
+ */
+function toClock(
+	meridiem: string | undefined,
+	hourStr: string,
+	minuteStr: string | undefined,
+): string | undefined {
+	let hour = Number.parseInt(hourStr, 10);
+	const minute = minuteStr ? Number.parseInt(minuteStr, 10) : 0;
+
+	if (meridiem === "午後" && hour < 12) {
+		hour += 12;
+	} else if (meridiem === "午前" && hour === 12) {
+		hour = 0;
+	}
+
+	if (hour > 24 || minute > 59 || (hour === 24 && minute > 0)) {
+		return undefined;
+	}
+	if (hour === 24) {
+		return "23:59";
+	}
+
+	return `${String(hour).padStart(2, "0")}:${String(minute).padStart(2, "0")}`;
+}
+
+/**
+ * 日時のテキストから開始・終了時刻を抽出
+ * 例: "2026年1月19日(月)10時00分～12時00分" -> { startTime: "10:00", endTime: "12:00" }
+ * 例: "午後1時30分から" -> { startTime: "13:30", endTime: "" }
+ * 時刻が見つからない場合は allDay を true とし、text は undefined を返す
+ */
+export function parseTimeRange(
+	text: string,
+): TimeRange & { text: string | undefined } {
+	const undetermined = {
+		startTime: "",
+		endTime: "",
+		allDay: true,
+		text: undefined,
+	};
+
+	// 全角数字・全角記号を半角に揃える
+	const normalized = text.normalize("NFKC");
+	const match = normalized.match(TIME_RANGE_PATTERN);
+	if (!match) {
+		return undetermined;
+	}
+
+	const [
+		matchedText,
+		startMeridiem,
+		startHour,
+		startColonMinute,
+		startMinute,
+		startHalf,
+		endMeridiem,
+		endHour,
+		endColonMinute,
+		endMinute,
+		endHalf,
+	] = match;
+	if (!startHour) {
+		return undetermined;
+	}
+
+	const startTime = toClock(
+		startMeridiem,
+		startHour,
+		startColonMinute ?? startMinute ?? (startHalf ? "30" : undefined),
+	);
+	if (!startTime) {
+		return undetermined;
+	}
+
+	let endTime = "";
+	if (endHour) {
+		const minute = endColonMinute ?? endMinute ?? (endHalf ? "30" : undefined);
+		// 終了側に午前/午後がない場合は開始側の表記を引き継ぐ ("午後1時～3時")
+		endTime = toClock(endMeridiem ?? startMeridiem, endHour, minute) ?? "";
+		if (endTime && endTime < startTime && startMeridiem && !endMeridiem) {
+			// 正午をまたぐ場合 ("午前11時～1時") は午後として扱う
+			endTime = toClock("午後", endHour, minute) ?? "";
+		}
+	}
+
+	// 表示用の区切り文字は全角の "～" に戻す
+	const displayText = matchedText.trim().replace(/~/g, "～");
+	return { startTime, endTime, allDay: false, text: displayText };
+}
+
+/**
+ * 開催日と開始・終了時刻 (HH:MM) からイベントの終了日時を返す
+ * 終了時刻が不明または開始時刻より前の場合は開始時刻とする
+ * "24:00" (以前に保存したデータ) は翌日の "00:00" とする
+ */
+export function resolveEndDateTime(
+	date: string,
+	startTime: string,
+	endTime: string,
+): { date: string; time: string } {
+	if (endTime === "24:00") {
+		const next = new Date(`${date}T00:00:00Z`);
+		next.setUTCDate(next.getUTCDate() + 1);
+		return { date: next.toISOString().substring(0, 10), time: "00:00" };
+	}
+	if (!endTime || endTime < startTime) {
+		return { date, time: startTime };
+	}
+	return { date, time: endTime };
+}
+
+/**
+ * 指定日時 (省略時は現在) のJSTでの日付を YYYY-MM-DD 形式で返す
+ */
+export function getJstDateString(date: Date = new Date()): string {
+	const jstTime = new Date(date.getTime() + 9 * 60 * 60 * 1000);
+	return jstTime.toISOString().substring(0, 10);
+}
+
+// 年月日の表記: "2026年1月27日" / "令和8年1月27日" / "令和元年5月1日" (全角はNFKCで半角化済み)
+const JAPANESE_DATE_PATTERN =
+	/(?:(令和)\s*(元|\d{1,2})|(\d{4}))\s*年\s*(\d{1,2})\s*月\s*(\d{1,2})\s*日/;
+
+/**
+ * 年月日のテキスト (西暦または令和) から日付を YYYY-MM-DD 形式で抽出
+ * 例: "令和8年1月27日（火）10時00分～" -> "2026-01-27"
+ * 見つからない場合は空文字を返す
+ */
+export function parseJapaneseDate(text: string): string {
+	const match = text.normalize("NFKC").match(JAPANESE_DATE_PATTERN);
+	if (!match) {
+		return "";
+	}
+
+	const [, reiwa, reiwaYear, westernYear, month, day] = match;
+	const year = reiwa
+		? 2018 + (reiwaYear === "元" ? 1 : Number.parseInt(reiwaYear ?? "", 10))
+		: Number.parseInt(westernYear ?? "", 10);
+	if (!month || !day || Number.isNaN(year)) {
+		return "";
+	}
+
+	return `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
+}